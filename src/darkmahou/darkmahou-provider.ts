@@ -5,9 +5,24 @@
 type Resolution = '480p' | '720p' | '1080p' | '1440p' | '4K';
 type CommonResolution = 480 | 720 | 1080;
 type ConfidenceLevel = 'high' | 'medium' | 'low';
+type EpisodeExtractionStrategy = 'heading' | 'dash' | 'seasonEpisode' | 'keyword' | 'isolatedNumber' | 'none';
 type ParseMethod = 'regex';
-type MatchStrategy = 'exact' | 'fuzzy' | 'normalized' | 'phonetic';
+type MatchStrategy = 'exact' | 'fuzzy' | 'normalized' | 'phonetic' | 'tokenSet' | 'tokenSort' | 'jaroWinkler';
+type VideoCodec = 'HEVC' | 'AVC' | 'AV1';
+type ReleaseSource = 'BD' | 'WEB-DL' | 'WEBRip' | 'WEB' | 'TV' | 'DVD';
+type SubtitleType = 'legendado' | 'softsub' | 'hardsub';
+type AudioType = 'sub' | 'dub' | 'dual';
+type AudioPreference = 'any' | 'dub' | 'sub';
+type LanguageCode = 'pt-BR' | 'ja' | 'en';
+type ContentKind = 'episode' | 'movie' | 'ova' | 'special' | 'batch';
+type SkipReason = 'duplicate' | 'excluded_url' | 'title_too_short' | 'no_score' | 'below_threshold' | 'over_candidate_limit';
+type HTTPErrorKind = 'timeout' | 'network' | 'rate_limited' | 'server_error' | 'client_error' | 'parse_error';
 type CacheKey = string & { readonly __cacheKey: true };
+type CacheNamespace = 'search' | 'torrents' | 'pageExtract' | 'latest' | 'queryPlan';
+type PageContradiction = 'year' | 'episodeCount' | 'status';
+type MetricStage = 'searchFetch' | 'pageExtraction' | 'torrentPageFetch' | 'parse';
+// Field names of the "userConfig" block in darkmahou-provider.json
+type UserConfigField = 'audioPreference' | 'mirrors' | 'pageOverrides' | 'releaseGroups';
 type Timestamp = number & { readonly __timestamp: true };
 
 // Template literal type for URL patterns
@@ -27,13 +42,21 @@ type SimilarityScore = number & { readonly __similarity: '0-1' };
 
 // Configuration with stronger typing
 const PROVIDER_CONFIG = {
-    API_BASE_URL: "https://darkmahou.io" as const,
+    // Same list as the "mirrors" user config default in darkmahou-provider.json (the tests check they match),
+    // only used when the host has no user config. The first reachable mirror is kept for the session.
+    MIRRORS: ["https://darkmahou.io", "https://darkmahou.org"] as const,
+    FEED_PATH: "/feed/" as const,
     USER_AGENT: "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36" as const,
     MAX_EPISODE_NUMBER: 9999 as const,
     MIN_EPISODE_NUMBER: 1 as const,
     MAX_YEAR: 2000 as const,
     COMMON_RESOLUTIONS: [480, 720, 1080] as const satisfies readonly CommonResolution[],
-    MAX_BATCH_EPISODES: 999 as const
+    MAX_BATCH_EPISODES: 999 as const,
+    // DarkMahou does not publish swarm statistics, nor sizes and dates for every release. Unknown values
+    // are explicit so they cannot be mistaken for a real zero or a release posted right now.
+    UNKNOWN_COUNT: -1 as const,
+    UNKNOWN_SIZE_LABEL: "Unknown" as const,
+    UNKNOWN_DATE: "" as const
 } as const satisfies Record<string, unknown>;
 
 const REGEX_PATTERNS = {
@@ -42,18 +65,117 @@ const REGEX_PATTERNS = {
     RESOLUTION: /\b(\d{3,4}p)\b/i,
     RELEASE_GROUP: /^\[([^\]]+)\]/,
     EPISODE_RANGE: /\b(\d{2,3})\s*[-~]\s*(\d{2,3})\b/,
+    EPISODE_RANGE_PORTUGUESE: /\b(\d{1,3})\s+(?:ao?|até)\s+(\d{1,3})\b/i,
+    BATCH_SEASON: /\bS(\d{1,2})(?!\s*E\d)\b/i,
+    // "S2" alone is a season pack, "S2E03" and "S2 - 03" are single episodes ("S2 1080p" is still a pack)
+    SEASON_PACK: /\bS\d{1,2}\b(?!\s*(?:E\d|[-–]?\s*\d{1,3}(?![\dp])))/i,
+    COMPLETE_SERIES: /\b(?:complete|completo|completa)\b/i,
     SEASON_EPISODE: /S(\d+)E(\d+)/i,
-    EPISODE_DASH: /\s-\s(\d{1,4})\s/,
+    EPISODE_DASH: /\s-\s(\d{1,4})(?:v\d)?\s/,
     EPISODE_NUMBER: /\b(\d{1,4})\b/g,
     EPISODE_PATTERNS: {
         PORTUGUESE: /episódio\s+(\d+)/i,
         ENGLISH: /(?:ep|episode)\s*(\d+)/i
     },
+    RELEASE: {
+        VIDEO_CODECS: [
+            { codec: 'HEVC', pattern: /\b(?:hevc|x\.?265|h\.?265)\b/i },
+            { codec: 'AVC', pattern: /\b(?:avc|x\.?264|h\.?264)\b/i },
+            { codec: 'AV1', pattern: /\bav1\b/i }
+        ],
+        BIT_DEPTH_10: /\b(?:10[\s-]?bits?|hi10p?)\b/i,
+        BIT_DEPTH_8: /\b8[\s-]?bits?\b/i,
+        // Checked in order, the more specific WEB variants come first
+        SOURCES: [
+            { source: 'BD', pattern: /\b(?:bd(?:rip|mv)?|blu-?ray)\b/i },
+            { source: 'WEB-DL', pattern: /\bweb[\s-]?dl\b/i },
+            { source: 'WEBRip', pattern: /\bweb[\s-]?rip\b/i },
+            { source: 'WEB', pattern: /\bweb\b/i },
+            { source: 'DVD', pattern: /\bdvd(?:rip)?\b/i },
+            { source: 'TV', pattern: /\b(?:hdtv|tv[\s-]?rip|tv)\b/i }
+        ],
+        DUAL_AUDIO: /\bdual[\s-]?[aá]udio\b/i,
+        DUBBED: /\b(?:dublado|dub)\b/i,
+        SUBTITLE_LANGUAGES: [
+            { language: 'pt-BR', pattern: /\b(?:legendado|pt[\s-]?br|portugu[eê]s)\b/i },
+            { language: 'en', pattern: /\b(?:eng(?:lish)?|ingl[eê]s)[\s-]?subs?\b|\bsubbed\b/i }
+        ],
+        AUDIO_CODECS: [
+            { codec: 'AAC', pattern: /\baac\b/i },
+            { codec: 'FLAC', pattern: /\bflac\b/i },
+            { codec: 'Opus', pattern: /\bopus\b/i },
+            { codec: 'E-AC-3', pattern: /\b(?:e-?ac-?3|ddp)\b/i },
+            { codec: 'AC3', pattern: /\bac-?3\b/i },
+            { codec: 'DTS', pattern: /\bdts\b/i }
+        ],
+        SUBTITLES: [
+            { type: 'legendado', pattern: /\blegendado\b/i },
+            { type: 'softsub', pattern: /\b(?:soft[\s-]?subs?|multi[\s-]?subs?)\b/i },
+            { type: 'hardsub', pattern: /\bhard[\s-]?subs?\b/i }
+        ],
+        CONTAINER: /\.?\b(mkv|mp4|avi)\b/i,
+        VERSION: /(?:^|[\s\[(_.-]|\d)v([2-9])(?=[\s\])_.-]|$)/i
+    },
     SEASON_ORDINAL: /\b(\d+)(?:st|nd|rd|th)\s+season\b/gi,
     SEASON_NUMBER: /\bseason\s+(\d+)\b/gi,
-    ANIME_PAGE_LINK: /<a[^>]+href="(https:\/\/darkmahou\.io\/[^\/]+\/)"[^>]*title="([^"]*)"[^>]*>/gi
+    SEASON_SUFFIX: /[\s:,-]*(?:\b\d+(?:st|nd|rd|th)\s+season|\bseason\s+\d+|\b(?:first|second|third|fourth|fifth)\s+season|\bpart\s+\d+|\b\d+\s*ª\s*temporada|\bS\d{1,2}|\b\d+(?:st|nd|rd|th)\s+cour|\bcour\s+\d+|\s(?:II|III|IV|VI{0,3}|IX|X))\s*$/i,
+    COUR_ORDINAL: /\b(\d+)(?:st|nd|rd|th)\s+cour\b/gi,
+    COUR_NUMBER: /\bcour\s+(\d+)\b/gi,
+    // Sequel numbers only count at the end of the title or right before its subtitle, so "Hunter X Hunter"
+    // is left alone, and never right after a season or part word
+    ROMAN_SEQUEL: /(?<!\b(?:[Ss]eason|[Pp]arte?|[Cc]our|[Tt]emporada))\s(II|III|IV|VI{0,3}|IX|X)(?=\s*(?:[:\-–]|$))/,
+    ARABIC_SEQUEL: /(?<!\b(?:no\.?|season|parte?|cour|temporada))\s([2-9]|10)(?=\s*(?:[:\-–]|$))/i,
+    // A subtitle colon is followed by a space, the one inside "Re:Zero" or "Steins;Gate"-style names is not
+    SEQUEL_SUBTITLE: /\s*(?::\s+|：\s*)(.+)$/,
+    SEASON_MARKER: /\b(\d+)\s*ª\s*temporada\b/i,
+    YEAR: /\b(19\d{2}|20\d{2})\b/,
+    ANIME_PAGE_LINK: /<a[^>]+href="((?:https?:\/\/[^\/"]+)?\/[^\/"?#]+\/)"[^>]*title="([^"]*)"[^>]*>/gi,
+    URL_ORIGIN: /^(https?:\/\/[^\/?#]+)(.*)$/i,
+    FEED: {
+        ITEM: /<item>([\s\S]*?)<\/item>/gi,
+        TITLE: /<title>(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?<\/title>/i,
+        LINK: /<link>([^<]+)<\/link>/i,
+        PUB_DATE: /<pubDate>([^<]+)<\/pubDate>/i,
+        CONTENT: /<content:encoded>(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?<\/content:encoded>/i
+    },
+    LISTING_SECTION: /class="listupd[^"]*"/i,
+    PAGE_METADATA: {
+        FIELD: /<span[^>]*>\s*<b>\s*([^<:]+?)\s*:?\s*<\/b>\s*:?\s*([\s\S]*?)<\/span>/gi,
+        ALTERNATIVE_TITLES: /<span[^>]*class="[^"]*\balter\b[^"]*"[^>]*>([\s\S]*?)<\/span>/i,
+        COMPLETED: /\b(?:complet[oa]|finalizad[oa]|conclu[íi]d[oa]|completed|finished)\b/i,
+        ONGOING: /\b(?:lan[çc]ando|em\s+(?:andamento|lan[çc]amento|exibi[çc][ãa]o)|ongoing|airing)\b/i
+    },
+    // Only a whole element reading "Episódio 05" or "Title – Episódio 05" is a download heading, so a synopsis
+    // mentioning "no episódio 3" is not
+    EPISODE_HEADING: /<(h[1-6]|strong|b|p|span|div|li|td)\b[^>]*>\s*((?:[^<>]{0,80}?\s(?:[–—-]|&#82(?:11|12);|&[nm]dash;)\s)?epis[oó]dios?\s*\d+[^<>]{0,60}?)\s*<\/\1>/gi,
+    // Same rule for "Legendado" / "Dublado" section titles, a synopsis saying the show "foi dublado" labels nothing
+    AUDIO_LABEL: /<(h[1-6]|strong|b|p|span|div|li|td|button|label)\b[^>]*>\s*([^<>]{0,40}?\b(?:legendado|dublado|dual[\s-]?[aá]udio)\b[^<>]{0,40}?)\s*<\/\1>/gi,
+    AUDIO_KEYWORD: /\b(?:legendado|dublado|dual[\s-]?[aá]udio)\b/i,
+    MAGNET_ANCHOR_TEXT: /^[^>]*>([\s\S]{0,200}?)<\/a>/i,
+    TORRENT_FILE_LINK: /href=["']([^"']+?\.torrent(?:\?[^"']*)?)["']/gi,
+    NYAA_LINK: /href=["'](https?:\/\/(?:www\.)?nyaa\.si\/(?:view|download)\/\d+[^"']*)["']/gi,
+    NYAA_TORRENT_ID: /^(https?:\/\/(?:www\.)?nyaa\.si)\/(?:view|download)\/(\d+)/i,
+    QUALITY_LABEL: /\b(?:\d{3,4}p|full\s?hd|fhd|hd|sd|4k|uhd)\b/i,
+    MAGNET_EXACT_LENGTH: /[?&;]xl=(\d+)/i,
+    SIZE_TEXT: /(\d+(?:[.,]\d+)?)\s*(TiB|GiB|MiB|KiB|TB|GB|MB|KB)\b/i,
+    PUBLISHED_TIME: /<meta[^>]+property="article:published_time"[^>]+content="([^"]+)"/i,
+    TIME_DATETIME: /<time[^>]+datetime="([^"]+)"/i
 } as const;
 
+// Quality words used on the site instead of explicit resolutions
+const QUALITY_LABEL_RESOLUTIONS: Record<string, Resolution> = {
+    "full hd": "1080p",
+    "fullhd": "1080p",
+    "fhd": "1080p",
+    "hd": "720p",
+    "sd": "480p",
+    "4k": "4K",
+    "uhd": "4K"
+};
+
+// Index + 1 is the numeral's value, sequels rarely go past ten
+const ROMAN_NUMERALS = ["I", "II", "III", "IV", "V", "VI", "VII", "VIII", "IX", "X"] as const;
+
 const PORTUGUESE_TRANSLATIONS = {
     ORDINAL_NUMBERS: {
         "first": "1ª",
@@ -69,27 +191,146 @@ const PORTUGUESE_TRANSLATIONS = {
     }
 } as const;
 
+// Words that mark a torrent as something other than a regular episode, built on the translated terms
+const CONTENT_KIND_TERMS: Readonly<Record<'movie' | 'ova' | 'special', readonly string[]>> = {
+    movie: [PORTUGUESE_TRANSLATIONS.TERMS.movie, "filmes", "movie", "gekijouban"],
+    ova: [PORTUGUESE_TRANSLATIONS.TERMS.ova, "ovas", "oad"],
+    special: [PORTUGUESE_TRANSLATIONS.TERMS.special, "especiais", "special", "specials"]
+};
+
+// Content kinds smartSearch keeps for each AniList media format, formats not listed are not filtered
+const MEDIA_FORMAT_CONTENT_KINDS: Readonly<Record<string, readonly ContentKind[]>> = {
+    TV: ['episode', 'batch'],
+    TV_SHORT: ['episode', 'batch'],
+    ONA: ['episode', 'batch'],
+    MOVIE: ['movie'],
+    OVA: ['ova', 'special', 'batch'],
+    SPECIAL: ['special', 'ova', 'batch']
+};
+
 const EXCLUDED_URL_PATTERNS = [
     "/?s=", "/tag/", "/blog/", "/contato", "/az-lists", 
-    "/em-breve", "/animes-populares", "/categoria", "/genero",
-    "/lord-of-mysteries/", "/yofukashi-no-uta", "/zutaboro-reijou", 
-    "/watari-kun", "/silent-witch", "/tougen-anki", "/arknights"
+    "/em-breve", "/animes-populares", "/categoria", "/genero"
 ] as const;
 
+// Manual corrections keyed by AniList media id, checked before any fuzzy matching.
+// Values are full page URLs or bare slugs ("dandadan" -> <active mirror>/dandadan/).
+const PAGE_OVERRIDES: Readonly<Record<number, readonly string[]>> = {};
+
+// Result listing markup, scoped to the article cards so sidebar widgets never take part in matching
+const SEARCH_RESULT_SELECTORS = {
+    CONTAINERS: [".postbody .listupd article.bs", ".listupd article.bs", ".listupd article"],
+    LINK: "a[href]",
+    TITLES: [".tt h2", "h2[itemprop='headline']", ".tt", "h2"],
+    THUMBNAIL: "img",
+    TYPE: ".typez",
+    EXCLUDED_ANCESTORS: "#sidebar, aside, .widget"
+} as const;
+
 // Performance optimization constants
 const PERFORMANCE_CONFIG = {
-    CACHE_TTL_MS: 5 * 60 * 1000, // 5 minutes
+    CACHE_TTL_MS: {
+        search: 5 * 60 * 1000,       // 5 minutes
+        torrents: 15 * 60 * 1000,    // anime pages only change when an episode is added
+        pageExtract: 30 * 60 * 1000, // query to page mapping is very stable
+        latest: 2 * 60 * 1000,       // the release feed moves faster than search results
+        queryPlan: 24 * 60 * 60 * 1000 // winning query per media, only changes if the site renames a page
+    } as const satisfies Record<CacheNamespace, number>,
+    CACHE_SNAPSHOT_VERSION: 1,
     MAX_CACHE_SIZE: 100,
     EARLY_EXIT_SCORE: 95,
-    MAX_FUZZY_CANDIDATES: 5,
-    MIN_TITLE_LENGTH: 2
+    MAX_SEARCH_PAGES: 3, // WordPress "/page/N/?s=" pages followed before giving up
+    MAX_SEARCH_REQUESTS: 12, // HTTP attempts per search across planned queries, pages, retries and mirrors
+    MAX_PLANNED_QUERIES: 6,
+    MAX_QUERY_VARIANTS: 8,
+    CONFIDENT_MATCH_SCORE: 80,
+    MIN_TITLE_LENGTH: 2,
+    MIN_VARIANT_LENGTH: 4,
+    MAX_LATEST_ITEMS: 10,
+    MIN_CANDIDATE_SCORE: 50,
+    MAX_PAGE_CANDIDATES: 4,
+    MAX_CONCURRENT_PAGE_FETCHES: 2,
+    LATENCY_SAMPLE_WINDOW: 500, // percentiles are computed over the most recent samples of each stage
+    LATENCY_BUCKETS_MS: [50, 100, 250, 500, 1000, 2500, 5000, 10000] as const
+} as const;
+
+// Cross-checks between the anime page info block and the requested media
+const PAGE_VALIDATION_CONFIG = {
+    YEAR_TOLERANCE: 1,          // seasons announced late in the year are often listed under the next one
+    EPISODE_COUNT_TOLERANCE: 2, // recaps and specials are sometimes counted as episodes
+    ALT_TITLE_MATCH_SCORE: 80,  // an alternative title this close to the media confirms the page
+    PENALTIES: {
+        year: 30,
+        episodeCount: 20,
+        status: 15
+    } as const satisfies Record<PageContradiction, number>
+} as const;
+
+// Info block labels on the anime page, matched against the bold label of each field
+const PAGE_METADATA_LABELS = {
+    YEAR: /^(?:lan[çc]amento|ano|exibi[çc][ãa]o|released|aired)$/i,
+    EPISODES: /^(?:epis[óo]dios|episodes)$/i,
+    STATUS: /^status$/i
+} as const;
+
+// Retry and throttling defaults for every request the provider makes
+const HTTP_CONFIG = {
+    MAX_RETRIES: 2,
+    BASE_DELAY_MS: 500,
+    MAX_DELAY_MS: 8000,
+    MAX_RETRY_AFTER_MS: 15000, // longer Retry-After values are reported instead of waited out
+    TIMEOUT_MS: 15000,
+    MAX_CONCURRENT_REQUESTS: 4,
+    RETRYABLE_STATUSES: [408, 429, 500, 502, 503, 504]
+} as const;
+
+// Weights used to rank smartSearch results, the top torrent of each episode becomes the best release
+const RELEASE_RANKING_CONFIG = {
+    DEFAULT_RESOLUTION: 1080, // preferred when the request does not ask for one
+    WEIGHTS: {
+        resolution: 40,
+        releaseGroup: 20,
+        episodeShape: 15, // single episode when an episode is requested, batch when a batch is
+        releasePreference: 5, // per TorrentParser.releasePreference point, dual audio is 2 and BD is 1
+        version: 5        // per version above v1
+    },
+    RESOLUTION_PENALTY_PER_STEP: 20, // points lost for every 360 lines away from the target
+    MAX_VERSION_BONUS: 10,
+    // Most preferred first, matched case-insensitively against the torrent's release group
+    RELEASE_GROUP_PRIORITY: [] as readonly string[]
 } as const;
 
+// Episode extraction confidence as a sortable number, higher sorts first
+const CONFIDENCE_ORDER: Readonly<Record<ConfidenceLevel, number>> = {
+    high: 2,
+    medium: 1,
+    low: 0
+};
+
 // Cache interfaces with TypeScript generics
 interface CacheEntry<T> {
     readonly data: T;
     readonly timestamp: Timestamp;
     readonly key: CacheKey;
+    readonly namespace: CacheNamespace;
+    readonly ttl: number;
+}
+
+// Storage behind PerformanceCache, keys() must list the least recently used entry first
+interface CacheBackend {
+    readonly size: number;
+    get(key: CacheKey): CacheEntry<unknown> | undefined;
+    set(key: CacheKey, entry: CacheEntry<unknown>): void;
+    delete(key: CacheKey): boolean;
+    keys(): CacheKey[];
+    clear(): void;
+}
+
+// Serializable form of the cache, safe to JSON.stringify and restore after a restart
+interface CacheSnapshot {
+    readonly version: number;
+    readonly exportedAt: number;
+    readonly entries: readonly CacheEntry<unknown>[];
 }
 
 interface PerformanceMetrics {
@@ -98,26 +339,56 @@ interface PerformanceMetrics {
     cacheHits: number;
     cacheMisses: number;
     fuzzyMatchCount: number;
+    requestsStarted: number;
+    requestsCoalesced: number;
+}
+
+// Bucket keys are "<=50" ... "<=10000" and ">10000", every bucket is always present
+interface LatencySummary {
+    readonly count: number;
+    readonly totalMs: number;
+    readonly p50: number;
+    readonly p95: number;
+    readonly max: number;
+    readonly buckets: Readonly<Record<string, number>>;
+}
+
+interface HostStats {
+    readonly requests: number;
+    readonly statuses: Readonly<Record<string, number>>;
+    readonly errors: Readonly<Record<HTTPErrorKind, number>>;
 }
 
+// Stable JSON shape: every field and every stage is present even before anything was recorded
 interface ReadonlyPerformanceMetrics {
     readonly searchTime: number;
     readonly parseTime: number;
     readonly cacheHits: number;
     readonly cacheMisses: number;
+    readonly cacheEfficiency: number; // 0-1, 0 while nothing was looked up
     readonly fuzzyMatchCount: number;
+    readonly requestsStarted: number;   // fetches and page parses that actually ran
+    readonly requestsCoalesced: number; // callers that joined one already in flight
+    readonly stages: Readonly<Record<MetricStage, LatencySummary>>;
+    readonly hosts: Readonly<Record<string, HostStats>>;
 }
 
 // Fuzzy matching configuration with type safety
 const FUZZY_MATCH_CONFIG = {
     maxDistance: 5,
     minSimilarity: 0.6,
-    strategies: ['exact', 'fuzzy', 'normalized', 'phonetic'] as const,
+    // Token ratios ignore word order, Jaro-Winkler rewards shared prefixes, both need a high bar
+    minTokenSimilarity: 0.8,
+    minJaroWinkler: 0.9,
+    strategies: ['exact', 'fuzzy', 'normalized', 'phonetic', 'tokenSet', 'tokenSort', 'jaroWinkler'] as const,
     weights: {
         exact: 100,
         fuzzy: 80,
         normalized: 70,
-        phonetic: 60
+        phonetic: 60,
+        tokenSet: 75,
+        tokenSort: 75,
+        jaroWinkler: 65
     }
 } as const satisfies FuzzyMatchConfig;
 
@@ -167,23 +438,174 @@ interface ScoreMatch {
     readonly strategy: MatchStrategy;
     readonly normalizedTitle?: NormalizedString;
     readonly distance?: StringDistance;
+    readonly year?: number | null;
+    readonly type?: string;
+    readonly validation?: PageValidation;
+}
+
+// Real values scraped next to a magnet, null when the page does not say
+interface TorrentMetadata {
+    readonly size: number | null;
+    readonly date: string | null;
+    readonly qualityLabel?: string;
+    readonly audioLabel?: string;
+    readonly downloadUrl?: string;
+}
+
+// A magnet (and the .torrent link next to it) together with the page text that describes it
+interface MagnetBlock {
+    readonly magnetLink: string; // empty for posts that only link a .torrent file
+    readonly downloadUrl: string;
+    readonly episodeTitle: string;
+    readonly qualityLabel: string;
+    readonly audioLabel: string;
+    readonly contextBefore: string;
+    readonly contextAfter: string;
+}
+
+// A search result card that did not make it into the candidate list
+interface SkippedCandidate {
+    readonly url: string;
+    readonly title: string;
+    readonly reason: SkipReason;
+    readonly score?: number;
+}
+
+// Everything a single planned query went through, collected for explainSearch
+interface SearchAttempt {
+    readonly query: string;
+    pagesFetched: number;
+    readonly candidates: ScoreMatch[];
+    readonly skipped: SkippedCandidate[];
+    selected: ScoreMatch[];
+}
+
+interface SearchExplanation {
+    readonly query: string;
+    readonly translatedQuery: string;
+    readonly cache: {
+        readonly search: 'hit' | 'miss';
+        readonly pageExtract: 'hit' | 'miss';
+    };
+    readonly overridePages: readonly string[];
+    readonly attempts: readonly SearchAttempt[];
+    readonly finalCandidates: readonly ScoreMatch[];
+    readonly finalPick: ScoreMatch | null;
+}
+
+// A single card from a search results or release listing page
+interface SearchResultEntry {
+    readonly url: string;
+    readonly title: string;
+    readonly thumbnail: string;
+    readonly year: number | null;
+    readonly type: string;
+}
+
+// A single release announced on the feed or on the homepage listing
+interface LatestRelease {
+    readonly title: string;
+    readonly url: string;
+    readonly date?: string;
+    readonly content?: string;
+}
+
+// Episode coverage of a batch torrent, null fields mean the name does not say
+interface BatchDescriptor {
+    readonly startEpisode: number | null;
+    readonly endEpisode: number | null;
+    readonly season: number | null;
+    readonly completeSeries: boolean;
+}
+
+// Release attributes parsed from the torrent name and its surrounding labels
+interface ReleaseAttributes {
+    readonly videoCodec: VideoCodec | null;
+    readonly bitDepth: 8 | 10 | null;
+    readonly source: ReleaseSource | null;
+    readonly dualAudio: boolean;
+    readonly dubbed: boolean;
+    readonly audioCodecs: readonly string[];
+    readonly subtitles: readonly SubtitleType[];
+    readonly container: string | null;
+    readonly version: number;
+    readonly audioType: AudioType;
+    readonly audioLanguages: readonly LanguageCode[];
+    readonly subtitleLanguages: readonly LanguageCode[];
+}
+
+// Provider-specific fields carried on top of Seanime's AnimeTorrent
+interface DarkMahouTorrent extends AnimeTorrent {
+    readonly attributes?: ReleaseAttributes;
+    readonly batch?: BatchDescriptor | null;
+    readonly contentKind?: ContentKind;
+    readonly episodeExtraction?: EpisodeExtractionResult;
+    readonly sourcePage?: {
+        readonly url: string;
+        readonly title: string;
+    };
+}
+
+
+// Info block of an anime page, null fields mean the page does not say
+interface AnimePageMetadata {
+    readonly year: number | null;
+    readonly episodeCount: number | null;
+    readonly status: 'ongoing' | 'completed' | null;
+    readonly alternativeTitles: readonly string[];
+}
+
+// Outcome of checking a candidate page against the requested media
+interface PageValidation {
+    readonly contradictions: readonly PageContradiction[];
+    readonly confirmedByTitle: boolean;
+    readonly penalty: number;
+}
+
+// How a candidate page relates to the media being searched
+interface PageSeasonInfo {
+    readonly season: number | null;
+    readonly matchesMedia: boolean;
+    readonly absoluteNumbering: boolean;
+}
+
+// Labelled pair from fuzzy-match-corpus.json
+interface LabelledTitlePair {
+    readonly query: string;
+    readonly title: string;
+    readonly expected: 'match' | 'no_match';
+}
+
+interface MatchScoringReport {
+    readonly threshold: number;
+    readonly total: number;
+    readonly accuracy: number;
+    readonly precision: number;
+    readonly recall: number;
+    readonly failures: ReadonlyArray<LabelledTitlePair & { readonly score: number; readonly strategy: MatchStrategy }>;
 }
 
 interface EpisodeExtractionResult {
-    readonly episodeNumber: EpisodeNumber;
+    readonly episodeNumber: EpisodeNumber | -1;
     readonly confidence: ConfidenceLevel;
+    readonly strategy: EpisodeExtractionStrategy;
 }
 
 // Fuzzy matching configuration with const assertions
 interface FuzzyMatchConfig {
     readonly maxDistance: number;
     readonly minSimilarity: number;
+    readonly minTokenSimilarity: number;
+    readonly minJaroWinkler: number;
     readonly strategies: readonly MatchStrategy[];
     readonly weights: {
         readonly exact: number;
         readonly fuzzy: number;
         readonly normalized: number;
         readonly phonetic: number;
+        readonly tokenSet: number;
+        readonly tokenSort: number;
+        readonly jaroWinkler: number;
     };
 }
 
@@ -196,6 +618,27 @@ type CharacterNormalizationMap = {
 type SpaceVariations = ' ' | '　' | '\t' | '\n';
 type DiacriticVariations = 'á' | 'à' | 'â' | 'ã' | 'ä' | 'é' | 'è' | 'ê' | 'ë' | 'í' | 'ì' | 'î' | 'ï' | 'ó' | 'ò' | 'ô' | 'õ' | 'ö' | 'ú' | 'ù' | 'û' | 'ü' | 'ç' | 'ñ';
 
+interface HTTPError {
+    readonly status: number;
+    readonly message: string;
+    readonly kind: HTTPErrorKind;
+}
+
+interface HTTPClientOptions {
+    readonly maxRetries: number;
+    readonly baseDelayMs: number;
+    readonly maxDelayMs: number;
+    readonly timeoutMs: number;
+}
+
+// Per-call request settings, explainSearch turns metrics off so a diagnostic run leaves no trace.
+// The stage times each HTTP attempt, without the limiter queue, the retry backoff or coalesced callers.
+interface RequestOptions {
+    readonly budget?: RequestBudget;
+    readonly recordMetrics?: boolean;
+    readonly stage?: MetricStage;
+}
+
 // Result type for better error handling
 type Result<T, E = Error> = 
     | { success: true; data: T }
@@ -227,6 +670,8 @@ type MatchingResult<T extends MatchStrategy> =
     T extends 'fuzzy' ? { score: FuzzyScore; distance: StringDistance } :
     T extends 'normalized' ? { score: FuzzyScore; normalized: true } :
     T extends 'phonetic' ? { score: FuzzyScore; phonetic: true } :
+    T extends 'tokenSet' | 'tokenSort' ? { score: FuzzyScore; similarity: SimilarityScore } :
+    T extends 'jaroWinkler' ? { score: FuzzyScore; similarity: SimilarityScore } :
     never;
 
 // Type guard functions
@@ -249,6 +694,47 @@ const isFuzzyScore = (score: number): score is FuzzyScore =>
 const isValidStringDistance = (distance: number): distance is StringDistance =>
     distance >= 0 && Number.isInteger(distance);
 
+const decodeHTMLEntities = (text: string): string =>
+    text
+        .replace(/&#0?38;/g, '&')
+        .replace(/&amp;/g, '&')
+        .replace(/&quot;/g, '"')
+        .replace(/&#0?39;/g, "'")
+        .replace(/&#8211;/g, '-')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>');
+
+// Maps items through an async function with at most `limit` calls in flight, preserving order
+const mapWithConcurrency = async <TInput, TOutput>(
+    items: readonly TInput[],
+    limit: number,
+    mapper: (item: TInput) => Promise<TOutput>
+): Promise<TOutput[]> => {
+    const results: TOutput[] = new Array(items.length);
+    let nextIndex = 0;
+    
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await mapper(items[index]);
+        }
+    };
+    
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+};
+
+// Reads a user config field, empty when it is unset or the Seanime version has no user config.
+// Seanime reloads the extension when the user saves the config, so reading it once per load is enough.
+const getUserPreference = (field: UserConfigField): string => {
+    try {
+        return typeof $getUserPreference === "function" ? ($getUserPreference(field) ?? "").trim() : "";
+    } catch (error) {
+        console.log("Could not read user config field " + field + ": " + (error as Error).message);
+        return "";
+    }
+};
+
 // Utility Classes with advanced TypeScript patterns
 class PortugueseTranslator implements Parser<string, string> {
     // Using mapped types for translation rules
@@ -277,6 +763,12 @@ class PortugueseTranslator implements Parser<string, string> {
             return result;
         },
         
+        // Split-cour seasons are posted as "parte N"
+        courNumbers: (query: string) =>
+            query
+                .replace(REGEX_PATTERNS.COUR_ORDINAL, "parte $1")
+                .replace(REGEX_PATTERNS.COUR_NUMBER, "parte $1"),
+        
         partNumbers: (query: string) => 
             query.replace(/\bpart\s+(\d+)\b/gi, "parte $1"),
         
@@ -288,6 +780,46 @@ class PortugueseTranslator implements Parser<string, string> {
         return Object.values(this.TRANSLATION_RULES)
             .reduce((acc, rule) => rule(acc), query);
     }
+    
+    // Equivalent spellings of a title: with and without the sequel subtitle, Roman and Arabic
+    // sequel numbers, and a trailing sequel number read as a season. The converted query comes first,
+    // derived variants too short to identify a show ("Re", "K") are left out.
+    static generateVariants(query: string): string[] {
+        const base = query.replace(/\s+/g, " ").trim();
+        const subtitleMatch = base.match(REGEX_PATTERNS.SEQUEL_SUBTITLE);
+        const titles = subtitleMatch
+            ? [base.replace(REGEX_PATTERNS.SEQUEL_SUBTITLE, " $1"), base.replace(REGEX_PATTERNS.SEQUEL_SUBTITLE, "")]
+            : [base];
+        
+        const forms: string[] = [];
+        for (const title of titles) {
+            const roman = title.match(REGEX_PATTERNS.ROMAN_SEQUEL);
+            const arabic = title.match(REGEX_PATTERNS.ARABIC_SEQUEL);
+            const sequelNumber = roman
+                ? ROMAN_NUMERALS.indexOf(roman[1] as typeof ROMAN_NUMERALS[number]) + 1
+                : arabic ? parseInt(arabic[1]) : null;
+            
+            forms.push(title);
+            if (sequelNumber !== null) {
+                const pattern = roman ? REGEX_PATTERNS.ROMAN_SEQUEL : REGEX_PATTERNS.ARABIC_SEQUEL;
+                forms.push(title.replace(pattern, ` ${sequelNumber}`));
+                forms.push(title.replace(pattern, ` ${ROMAN_NUMERALS[sequelNumber - 1]}`));
+                forms.push(title.replace(pattern, ` ${sequelNumber}ª temporada`));
+            }
+        }
+        
+        const seen = new Set<string>();
+        return forms
+            .map(form => PortugueseTranslator.convertQuery(form))
+            .filter((variant, index) => {
+                const key = variant.toLowerCase();
+                if (!variant || seen.has(key)) return false;
+                if (index > 0 && variant.length < PERFORMANCE_CONFIG.MIN_VARIANT_LENGTH) return false;
+                seen.add(key);
+                return true;
+            })
+            .slice(0, PERFORMANCE_CONFIG.MAX_QUERY_VARIANTS);
+    }
 
     // Implementing the Parser interface
     parse(input: string): string {
@@ -295,6 +827,219 @@ class PortugueseTranslator implements Parser<string, string> {
     }
 }
 
+// Ordered mirror list with failover, the mirror that last answered is remembered for the session
+class MirrorManager {
+    private static mirrors: string[] = PROVIDER_CONFIG.MIRRORS.map(mirror => mirror.replace(/\/+$/, ''));
+    private static activeIndex = 0;
+    
+    static get active(): string {
+        return this.mirrors[this.activeIndex];
+    }
+    
+    static list(): readonly string[] {
+        return [...this.mirrors];
+    }
+    
+    static isMirrorURL(url: string): boolean {
+        return !url.startsWith("/") && this.toPath(url) !== null;
+    }
+    
+    static configure(mirrors: readonly string[]): void {
+        const cleaned = mirrors
+            .map(mirror => mirror.trim().replace(/\/+$/, ''))
+            .filter(mirror => REGEX_PATTERNS.URL_ORIGIN.test(mirror));
+        if (cleaned.length === 0) {
+            console.log("Ignoring empty mirror list");
+            return;
+        }
+        
+        this.mirrors = Array.from(new Set(cleaned));
+        this.activeIndex = 0;
+    }
+    
+    // Fetches a path or a URL on any known mirror, starting with the active mirror and moving down the list
+    // when it is unreachable. Client errors such as 404 mean the mirror is up, so they are returned as is.
+    static fetch(urlOrPath: string, options: RequestOptions = {}): Promise<Result<string, HTTPError>> {
+        // The same page on two mirrors is still one request
+        const path = this.toPath(urlOrPath);
+        return RequestCoalescer.run(
+            "fetch:" + (path ?? urlOrPath),
+            () => this.fetchFromMirrors(urlOrPath, path, options),
+            options.recordMetrics ?? true
+        );
+    }
+    
+    private static async fetchFromMirrors(urlOrPath: string, path: string | null, options: RequestOptions): Promise<Result<string, HTTPError>> {
+        if (path === null) {
+            return HTTPClient.fetchWithUserAgent(urlOrPath, undefined, options);
+        }
+        
+        let lastError: HTTPError = { status: 0, message: 'No mirror configured', kind: 'network' };
+        const order = [...this.mirrors.slice(this.activeIndex), ...this.mirrors.slice(0, this.activeIndex)];
+        
+        for (const mirror of order) {
+            if (options.budget?.exhausted) break;
+            
+            const result = await HTTPClient.fetchWithUserAgent(mirror + path, async response => ({
+                html: await response.text(),
+                finalURL: response.url || ""
+            }), options);
+            
+            if (result.success) {
+                this.remember(mirror, result.data.finalURL);
+                return { success: true, data: result.data.html };
+            }
+            
+            lastError = result.error;
+            if (result.error.kind === 'client_error') {
+                return { success: false, error: result.error };
+            }
+            console.log(`Mirror ${mirror} failed (${result.error.kind}: ${result.error.message}), trying the next one`);
+        }
+        
+        return { success: false, error: lastError };
+    }
+    
+    // Returns the path for URLs on a known mirror, null for external URLs
+    private static toPath(urlOrPath: string): string | null {
+        if (urlOrPath.startsWith("/")) return urlOrPath;
+        
+        const match = urlOrPath.match(REGEX_PATTERNS.URL_ORIGIN);
+        if (!match) return null;
+        
+        const origin = match[1].toLowerCase();
+        return this.mirrors.some(mirror => mirror.toLowerCase() === origin) ? match[2] || "/" : null;
+    }
+    
+    // A redirect to another host means the site moved, so the new host becomes the active mirror
+    private static remember(mirror: string, finalURL: string): void {
+        const finalOrigin = finalURL.match(REGEX_PATTERNS.URL_ORIGIN)?.[1];
+        let target = mirror;
+        
+        if (finalOrigin && finalOrigin.toLowerCase() !== mirror.toLowerCase()) {
+            console.log(`Mirror ${mirror} redirected to ${finalOrigin}`);
+            target = finalOrigin;
+            if (!this.mirrors.some(known => known.toLowerCase() === finalOrigin.toLowerCase())) {
+                this.mirrors.unshift(finalOrigin);
+            }
+        }
+        
+        const index = this.mirrors.findIndex(known => known.toLowerCase() === target.toLowerCase());
+        if (index !== this.activeIndex) {
+            console.log("Switching active mirror to " + this.mirrors[index]);
+            this.activeIndex = index;
+        }
+    }
+}
+
+// Media to page override table, extended from the "pageOverrides" user config field
+class PageOverrides {
+    private static readonly _overrides = new Map<number, string[]>(
+        Object.entries(PAGE_OVERRIDES).map(([mediaId, pages]) => [Number(mediaId), pages.map(PageOverrides.toPageURL)])
+    );
+    
+    static get(mediaId: number | undefined): string[] {
+        return mediaId !== undefined ? this._overrides.get(mediaId) ?? [] : [];
+    }
+    
+    // Accepts { "<mediaId>": "slug" | ["slug", "https://..."] }, entries with invalid ids or pages are skipped
+    // and leave any override already set for that media in place
+    static importJSON(json: string | Record<string, string | readonly string[]>): number {
+        const data = typeof json === 'string' ? JSON.parse(json) : json;
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+            throw new Error("Page overrides must be a JSON object keyed by media id");
+        }
+        
+        let imported = 0;
+        for (const [key, value] of Object.entries(data)) {
+            const mediaId = Number(key);
+            const urls = (Array.isArray(value) ? value : [value])
+                .filter((page): page is string => typeof page === 'string')
+                .map(PageOverrides.toPageURL)
+                .filter(url => url !== "");
+            if (!Number.isInteger(mediaId) || mediaId <= 0 || urls.length === 0) {
+                console.log("Skipping invalid page override for: " + key);
+                continue;
+            }
+            
+            this._overrides.set(mediaId, urls);
+            imported++;
+        }
+        return imported;
+    }
+    
+    // Same shape importJSON reads, so corrections can be shared or pasted into the user config
+    static exportJSON(): string {
+        return JSON.stringify(Object.fromEntries(this._overrides), null, 2);
+    }
+    
+    // Override pages skip fuzzy matching, so they enter the pipeline as exact matches
+    static toCandidates(pages: readonly string[]): ScoreMatch[] {
+        return pages.map(url => ({
+            url,
+            title: url.replace(/\/+$/, '').split('/').pop()?.replace(/[-_]/g, ' ') ?? url,
+            score: 100 as FuzzyScore,
+            strategy: 'exact' as const
+        }));
+    }
+    
+    private static toPageURL(page: string): string {
+        const trimmed = page.trim();
+        if (/^https?:\/\//i.test(trimmed)) {
+            return trimmed.endsWith('/') ? trimmed : trimmed + '/';
+        }
+        
+        const slug = trimmed.replace(/^\/+|\/+$/g, '');
+        if (!/^[a-z0-9][a-z0-9-]*$/i.test(slug)) {
+            console.log("Ignoring invalid page override: " + page);
+            return "";
+        }
+        return `${MirrorManager.active}/${slug}/`;
+    }
+}
+
+// Builds the ordered list of site queries tried for a media, most specific first
+class QueryPlanner {
+    static plan(query: string, media: Media | undefined, rememberedQuery: string | null = null): string[] {
+        const titles = [
+            query,
+            media?.romajiTitle,
+            media?.englishTitle,
+            ...(media?.synonyms ?? [])
+        ].filter((title): title is string => !!title && title.trim().length >= PERFORMANCE_CONFIG.MIN_TITLE_LENGTH);
+        
+        // Translated titles first, then the variants of the main query, the season-less base titles
+        // and finally the raw titles as written
+        const planned = [
+            ...(rememberedQuery ? [rememberedQuery] : []),
+            ...titles.map(title => PortugueseTranslator.convertQuery(title)),
+            ...(titles.length > 0 ? PortugueseTranslator.generateVariants(titles[0]).slice(1) : []),
+            ...titles.map(title => PortugueseTranslator.convertQuery(QueryPlanner.removeSeasonSuffix(title))),
+            ...titles.map(title => title.trim())
+        ];
+        
+        const seen = new Set<string>();
+        return planned
+            .filter(candidate => {
+                const key = candidate.toLowerCase();
+                if (!candidate || seen.has(key)) return false;
+                seen.add(key);
+                return true;
+            })
+            .slice(0, PERFORMANCE_CONFIG.MAX_PLANNED_QUERIES);
+    }
+    
+    static removeSeasonSuffix(title: string): string {
+        let result = title.trim();
+        let previous = "";
+        while (result !== previous) {
+            previous = result;
+            result = result.replace(REGEX_PATTERNS.SEASON_SUFFIX, "").trim();
+        }
+        return result || title.trim();
+    }
+}
+
 class TorrentParser {
     // Using conditional types and type guards for safer parsing
     static extractInfoHash(magnetLink: string): InfoHash | "" {
@@ -321,62 +1066,215 @@ class TorrentParser {
         return match?.[1] ?? "";
     }
     
+    // The source only comes from the name and the quality label, a heading such as "Dandadan TV" is not a TV rip
+    static parseAttributes(name: string, context: string = "", qualityLabel: string = ""): ReleaseAttributes {
+        const text = `${name} ${qualityLabel} ${context}`;
+        const sourceText = `${name} ${qualityLabel}`;
+        const patterns = REGEX_PATTERNS.RELEASE;
+        
+        const bitDepth = patterns.BIT_DEPTH_10.test(text) ? 10 : patterns.BIT_DEPTH_8.test(text) ? 8 : null;
+        const versionMatch = name.match(patterns.VERSION);
+        const audioType = TorrentParser.parseAudioType(text);
+        
+        return {
+            videoCodec: (patterns.VIDEO_CODECS.find(entry => entry.pattern.test(text))?.codec ?? null) as VideoCodec | null,
+            bitDepth,
+            source: (patterns.SOURCES.find(entry => entry.pattern.test(sourceText))?.source ?? null) as ReleaseSource | null,
+            dualAudio: patterns.DUAL_AUDIO.test(text),
+            dubbed: patterns.DUBBED.test(text),
+            audioCodecs: patterns.AUDIO_CODECS.filter(entry => entry.pattern.test(text)).map(entry => entry.codec),
+            subtitles: patterns.SUBTITLES.filter(entry => entry.pattern.test(text)).map(entry => entry.type as SubtitleType),
+            container: name.match(patterns.CONTAINER)?.[1]?.toLowerCase() ?? null,
+            version: versionMatch ? parseInt(versionMatch[1]) : 1,
+            audioType,
+            audioLanguages: audioType === 'dual' ? ['ja', 'pt-BR'] : audioType === 'dub' ? ['pt-BR'] : ['ja'],
+            subtitleLanguages: TorrentParser.parseSubtitleLanguages(text, audioType)
+        };
+    }
+    
+    // Dual audio also mentions "dublado" on some posts, so it is checked first
+    static parseAudioType(text: string): AudioType {
+        if (REGEX_PATTERNS.RELEASE.DUAL_AUDIO.test(text)) return 'dual';
+        if (REGEX_PATTERNS.RELEASE.DUBBED.test(text)) return 'dub';
+        return 'sub';
+    }
+    
+    // Unlabelled subtitled releases on DarkMahou are Brazilian Portuguese
+    private static parseSubtitleLanguages(text: string, audioType: AudioType): LanguageCode[] {
+        const languages = REGEX_PATTERNS.RELEASE.SUBTITLE_LANGUAGES
+            .filter(entry => entry.pattern.test(text))
+            .map(entry => entry.language as LanguageCode);
+        if (languages.length > 0) return languages;
+        return audioType === 'dub' ? [] : ['pt-BR'];
+    }
+    
+    // Dub preference keeps dubbed and dual-audio releases, sub preference keeps the ones with original audio
+    static matchesAudioPreference(attributes: ReleaseAttributes | undefined, preference: AudioPreference): boolean {
+        const audioType = attributes?.audioType ?? 'sub';
+        if (preference === 'dub') return audioType !== 'sub';
+        if (preference === 'sub') return audioType !== 'dub';
+        return true;
+    }
+    
+    // Resolution from a label such as "1080p" or "Full HD"
+    static parseQualityLabel(label: string): Resolution | "" {
+        const explicit = TorrentParser.parseResolution(label);
+        if (explicit) return explicit;
+        
+        const match = label.match(REGEX_PATTERNS.QUALITY_LABEL);
+        return match ? QUALITY_LABEL_RESOLUTIONS[match[0].toLowerCase().replace(/\s+/, ' ')] ?? "" : "";
+    }
+    
+    // Small preference boost used to surface dual-audio and BD releases first
+    static releasePreference(attributes: ReleaseAttributes | undefined): number {
+        if (!attributes) return 0;
+        return (attributes.dualAudio ? 2 : 0) + (attributes.source === 'BD' ? 1 : 0);
+    }
+    
+    // Keeps only the newest version of each episode release (v2 replaces v1 from the same group)
+    static supersedeOldVersions<T extends DarkMahouTorrent>(torrents: readonly T[]): T[] {
+        const newest = new Map<string, T>();
+        const releaseKey = (t: T) =>
+            `${t.episodeNumber}|${t.resolution ?? ""}|${t.attributes?.audioType ?? ""}|${(t.releaseGroup ?? "").toLowerCase()}|${t.sourcePage?.url ?? t.link}`;
+        
+        for (const torrent of torrents) {
+            if (torrent.isBatch || !torrent.episodeNumber || torrent.episodeNumber < 0) continue;
+            const key = releaseKey(torrent);
+            const current = newest.get(key);
+            if (!current || (torrent.attributes?.version ?? 1) > (current.attributes?.version ?? 1)) {
+                newest.set(key, torrent);
+            }
+        }
+        
+        return torrents.filter(torrent =>
+            torrent.isBatch || !torrent.episodeNumber || torrent.episodeNumber < 0 ||
+            newest.get(releaseKey(torrent)) === torrent
+        );
+    }
+    
+    // Checks the torrent name first, then the episode heading, then the page slug
+    static parseContentKind(name: string, episodeTitle: string, pageURL: string = ""): ContentKind {
+        if (TorrentParser.parseBatch(name, episodeTitle) !== null) {
+            return 'batch';
+        }
+        
+        const slug = pageURL.replace(/\/+$/, '').split('/').pop()?.replace(/[-_]/g, ' ') ?? "";
+        for (const text of [name, episodeTitle, slug]) {
+            for (const [kind, terms] of Object.entries(CONTENT_KIND_TERMS)) {
+                if (new RegExp(`\\b(?:${terms.join('|')})\\b`, 'i').test(text)) {
+                    return kind as ContentKind;
+                }
+            }
+        }
+        
+        return 'episode';
+    }
+    
     static isBatchTorrent(name: string, episodeTitle: string): boolean {
+        return TorrentParser.parseBatch(name, episodeTitle) !== null;
+    }
+    
+    // Returns the episode coverage of a batch, or null for single-episode torrents
+    static parseBatch(name: string, episodeTitle: string): BatchDescriptor | null {
         const lowerName = name.toLowerCase();
         const lowerTitle = episodeTitle.toLowerCase();
         
+        const season = TorrentParser.extractBatchSeason(name);
+        const range = TorrentParser.extractEpisodeRange(name) ?? TorrentParser.extractEpisodeRange(episodeTitle);
+        
+        // Episode ranges carry the most precise coverage
+        if (range) {
+            return { startEpisode: range[0], endEpisode: range[1], season, completeSeries: false };
+        }
+        
         // Explicit batch indicators
-        if (lowerName.includes("batch") || 
-            lowerName.includes("complete") || 
-            lowerTitle.includes("~")) {
+        const isComplete = REGEX_PATTERNS.COMPLETE_SERIES.test(name) || REGEX_PATTERNS.COMPLETE_SERIES.test(episodeTitle);
+        const isExplicitBatch = lowerName.includes("batch") || lowerTitle.includes("~") || isComplete;
+        
+        // Season without an episode number
+        const isSeasonPack = REGEX_PATTERNS.SEASON_PACK.test(name);
+        
+        // Individual episodes are NOT batches
+        if (!isExplicitBatch && !isSeasonPack) {
+            return null;
+        }
+        
+        return {
+            startEpisode: null,
+            endEpisode: null,
+            season,
+            completeSeries: isComplete && season === null
+        };
+    }
+    
+    // A batch with unknown coverage is kept, as it may well contain the episode
+    static batchCoversEpisode(batch: BatchDescriptor | null, season: number, episodes: readonly number[]): boolean {
+        if (!batch || batch.completeSeries) {
             return true;
         }
         
-        // Episode ranges validation
-        const rangeMatch = name.match(REGEX_PATTERNS.EPISODE_RANGE);
-        if (rangeMatch) {
-            const start = parseInt(rangeMatch[1]);
-            const end = parseInt(rangeMatch[2]);
-            if (end > start && start >= PROVIDER_CONFIG.MIN_EPISODE_NUMBER && end <= PROVIDER_CONFIG.MAX_BATCH_EPISODES) {
-                return true;
+        if (batch.startEpisode !== null && batch.endEpisode !== null) {
+            // Ranges without a season may be numbered across seasons
+            if (batch.season !== null && batch.season !== season) {
+                return false;
             }
+            return episodes.some(episode => episode >= batch.startEpisode! && episode <= batch.endEpisode!);
         }
         
-        // Season without episode patterns
-        if (lowerName.match(/\bs\d+\b/) && !lowerName.match(/\bs\d+e\d+\b/)) {
-            return true;
+        return batch.season === null || batch.season === season;
+    }
+    
+    private static extractEpisodeRange(text: string): [number, number] | null {
+        const rangeMatch = text.match(REGEX_PATTERNS.EPISODE_RANGE) ?? text.match(REGEX_PATTERNS.EPISODE_RANGE_PORTUGUESE);
+        if (!rangeMatch) {
+            return null;
         }
         
-        // Individual episodes are NOT batches
-        if (name.match(/\s-\s\d{1,3}(\s|$)/)) {
-            return false;
+        // Episode ranges validation
+        const start = parseInt(rangeMatch[1]);
+        const end = parseInt(rangeMatch[2]);
+        if (end > start && start >= PROVIDER_CONFIG.MIN_EPISODE_NUMBER && end <= PROVIDER_CONFIG.MAX_BATCH_EPISODES) {
+            return [start, end];
         }
-        
-        return false;
+        return null;
+    }
+    
+    private static extractBatchSeason(name: string): number | null {
+        const match = name.match(REGEX_PATTERNS.BATCH_SEASON);
+        if (match) {
+            return parseInt(match[1]);
+        }
+        return SeasonResolver.extractSeason(name);
     }
     
     static extractEpisodeNumber(name: string, episodeTitle: string): EpisodeNumber | -1 {
+        return TorrentParser.extractEpisode(name, episodeTitle).episodeNumber;
+    }
+    
+    // Reports which strategy found the number, a stray number in the name is only a low-confidence guess
+    static extractEpisode(name: string, episodeTitle: string): EpisodeExtractionResult {
+        // Batches have no single episode, their coverage comes from parseBatch
         if (TorrentParser.isBatchTorrent(name, episodeTitle)) {
-            return -1;
+            return { episodeNumber: -1, confidence: 'high', strategy: 'none' };
         }
         
         // Define extraction strategies with priority order
-        const extractionStrategies = [
-            () => TorrentParser.tryExtractFromPattern(episodeTitle, REGEX_PATTERNS.EPISODE_PATTERNS.PORTUGUESE),
-            () => TorrentParser.tryExtractFromPattern(name, REGEX_PATTERNS.EPISODE_DASH),
-            () => TorrentParser.tryExtractFromSeasonEpisode(name),
-            () => TorrentParser.tryExtractFromPattern(name, REGEX_PATTERNS.EPISODE_PATTERNS.ENGLISH),
-            () => TorrentParser.tryExtractFromIsolatedNumbers(name)
-        ] as const;
-        
-        for (const strategy of extractionStrategies) {
-            const result = strategy();
+        const extractionStrategies: ReadonlyArray<[EpisodeExtractionStrategy, ConfidenceLevel, () => number | null]> = [
+            ['heading', 'high', () => TorrentParser.tryExtractFromPattern(episodeTitle, REGEX_PATTERNS.EPISODE_PATTERNS.PORTUGUESE)],
+            ['dash', 'high', () => TorrentParser.tryExtractFromPattern(name, REGEX_PATTERNS.EPISODE_DASH)],
+            ['seasonEpisode', 'high', () => TorrentParser.tryExtractFromSeasonEpisode(name)],
+            ['keyword', 'medium', () => TorrentParser.tryExtractFromPattern(name, REGEX_PATTERNS.EPISODE_PATTERNS.ENGLISH)],
+            ['isolatedNumber', 'low', () => TorrentParser.tryExtractFromIsolatedNumbers(name)]
+        ];
+        
+        for (const [strategy, confidence, extract] of extractionStrategies) {
+            const result = extract();
             if (result !== null) {
-                return result as EpisodeNumber;
+                return { episodeNumber: result as EpisodeNumber, confidence, strategy };
             }
         }
         
-        return -1;
+        return { episodeNumber: -1, confidence: 'low', strategy: 'none' };
     }
     
     private static tryExtractFromPattern(text: string, pattern: RegExp): number | null {
@@ -417,65 +1315,900 @@ class TorrentParser {
     }
 }
 
-// High-performance cache implementation with TypeScript generics
-class PerformanceCache {
-    private static readonly _cache = new Map<CacheKey, CacheEntry<any>>();
-    private static _metrics: PerformanceMetrics = {
-        searchTime: 0,
-        parseTime: 0,
-        cacheHits: 0,
-        cacheMisses: 0,
-        fuzzyMatchCount: 0
-    };
+// Season detection for pages and media, plus absolute/relative episode conversion
+class SeasonResolver {
+    // Relies on the "Nª temporada" markers produced by PortugueseTranslator
+    static extractSeason(text: string): number | null {
+        const translated = PortugueseTranslator.convertQuery(text.replace(/[-_]/g, ' '));
+        const match = translated.match(REGEX_PATTERNS.SEASON_MARKER);
+        const season = match ? parseInt(match[1]) : NaN;
+        return season > 0 ? season : null;
+    }
     
-    static get<T>(key: string): T | null {
-        const cacheKey = this.createCacheKey(key);
-        const entry = this._cache.get(cacheKey);
-        
-        if (!entry) {
-            this._metrics.cacheMisses++;
-            return null;
-        }
+    static extractYear(text: string): number | null {
+        const match = text.match(REGEX_PATTERNS.YEAR);
+        return match ? parseInt(match[1]) : null;
+    }
+    
+    static seasonFromMedia(media: Media): number {
+        const titles = [media.romajiTitle, media.englishTitle, ...(media.synonyms ?? [])]
+            .filter((title): title is string => !!title);
         
-        // Check TTL
-        const now = Date.now() as Timestamp;
-        if (now - entry.timestamp > PERFORMANCE_CONFIG.CACHE_TTL_MS) {
-            this._cache.delete(cacheKey);
-            this._metrics.cacheMisses++;
-            return null;
+        for (const title of titles) {
+            const season = SeasonResolver.extractSeason(title);
+            if (season) return season;
         }
-        
-        this._metrics.cacheHits++;
-        return entry.data;
+        return 1;
     }
     
-    static set<T>(key: string, data: T): void {
-        // Prevent cache overflow
-        if (this._cache.size >= PERFORMANCE_CONFIG.MAX_CACHE_SIZE) {
-            const firstKey = this._cache.keys().next().value;
-            if (firstKey) this._cache.delete(firstKey);
+    static toAbsoluteEpisode(episode: number, media: Media): number | null {
+        const offset = media.absoluteSeasonOffset ?? 0;
+        return offset > 0 ? episode + offset : null;
+    }
+    
+    static describePage(pageTitle: string, pageEpisodes: number[], media: Media, requestedSeason: number): PageSeasonInfo {
+        const season = SeasonResolver.extractSeason(pageTitle);
+        const pageYear = SeasonResolver.extractYear(pageTitle);
+        const mediaYear = media.startDate?.year;
+        const yearMismatch = !!pageYear && !!mediaYear && pageYear !== mediaYear;
+        
+        const matchesMedia = (season ?? 1) === requestedSeason && !yearMismatch;
+        
+        // An unmarked page for a later season is the show's umbrella page, numbered across seasons.
+        // A page listing more episodes than the season has is numbered the same way.
+        const maxEpisode = pageEpisodes.length > 0 ? Math.max(...pageEpisodes) : 0;
+        const exceedsSeason = !!media.episodeCount && maxEpisode > media.episodeCount;
+        const absoluteNumbering = (season === null && requestedSeason > 1) || exceedsSeason;
+        
+        return { season, matchesMedia, absoluteNumbering };
+    }
+}
+
+// Parses the anime page info block (the "Status:", "Lançamento:" and "Episódios:" fields)
+class AnimePageMetadataParser {
+    static parse(html: string): AnimePageMetadata {
+        let year: number | null = null;
+        let episodeCount: number | null = null;
+        let status: AnimePageMetadata['status'] = null;
+        
+        for (const match of html.matchAll(REGEX_PATTERNS.PAGE_METADATA.FIELD)) {
+            const label = decodeHTMLEntities(match[1]).trim();
+            const value = decodeHTMLEntities(match[2].replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+            
+            if (year === null && PAGE_METADATA_LABELS.YEAR.test(label)) {
+                year = SeasonResolver.extractYear(value);
+            } else if (episodeCount === null && PAGE_METADATA_LABELS.EPISODES.test(label)) {
+                const count = parseInt(value, 10);
+                episodeCount = count > 0 ? count : null;
+            } else if (status === null && PAGE_METADATA_LABELS.STATUS.test(label)) {
+                status = REGEX_PATTERNS.PAGE_METADATA.COMPLETED.test(value) ? 'completed'
+                    : REGEX_PATTERNS.PAGE_METADATA.ONGOING.test(value) ? 'ongoing'
+                    : null;
+            }
+        }
+        
+        const alternativeText = html.match(REGEX_PATTERNS.PAGE_METADATA.ALTERNATIVE_TITLES)?.[1] ?? "";
+        const alternativeTitles = decodeHTMLEntities(alternativeText.replace(/<[^>]*>/g, ' '))
+            .split(/\s*[,;|]\s*/)
+            .map(title => title.replace(/\s+/g, ' ').trim())
+            .filter(title => title.length >= PERFORMANCE_CONFIG.MIN_TITLE_LENGTH);
+        
+        return { year, episodeCount, status, alternativeTitles };
+    }
+}
+
+// Compares page metadata with the requested media. Only facts both sides state can contradict,
+// a matching alternative title halves the penalty since the name itself is then confirmed.
+class PageMetadataValidator {
+    static validate(metadata: AnimePageMetadata, media: Media): PageValidation {
+        const contradictions: PageContradiction[] = [];
+        const mediaYear = media.startDate?.year ?? null;
+        
+        if (metadata.year !== null && mediaYear && Math.abs(metadata.year - mediaYear) > PAGE_VALIDATION_CONFIG.YEAR_TOLERANCE) {
+            contradictions.push('year');
+        }
+        
+        // Counts are only final once both sides are finished, pages may also count episodes across seasons
+        if (metadata.episodeCount !== null && media.episodeCount && metadata.status === 'completed' && media.status === 'FINISHED') {
+            const absoluteCount = (media.absoluteSeasonOffset ?? 0) + media.episodeCount;
+            const matchesCount = [media.episodeCount, absoluteCount].some(count =>
+                Math.abs(metadata.episodeCount! - count) <= PAGE_VALIDATION_CONFIG.EPISODE_COUNT_TOLERANCE
+            );
+            if (!matchesCount) {
+                contradictions.push('episodeCount');
+            }
+        }
+        
+        // A finished page cannot hold a show that has not finished airing
+        if (metadata.status === 'completed' && (media.status === 'RELEASING' || media.status === 'NOT_YET_RELEASED')) {
+            contradictions.push('status');
+        }
+        
+        const mediaTitles = [media.romajiTitle, media.englishTitle, ...(media.synonyms ?? [])]
+            .filter((title): title is string => !!title);
+        const confirmedByTitle = metadata.alternativeTitles.some(alternative =>
+            mediaTitles.some(title => AnimePageExtractor.scoreTitle(title, alternative).score >= PAGE_VALIDATION_CONFIG.ALT_TITLE_MATCH_SCORE)
+        );
+        
+        const penalty = contradictions.reduce((total, contradiction) => total + PAGE_VALIDATION_CONFIG.PENALTIES[contradiction], 0);
+        return { contradictions, confirmedByTitle, penalty: confirmedByTitle ? Math.round(penalty / 2) : penalty };
+    }
+    
+    // Re-sorts candidates by their score minus the penalty. Contradicting pages are dropped whenever a page
+    // without contradictions remains, since their torrents would otherwise be ranked alongside the right show's.
+    // With only contradicting pages left, the ones below the candidate threshold go unless none would remain.
+    static demote<T extends ScoreMatch>(candidates: readonly T[]): T[] {
+        const adjusted = candidates
+            .map(candidate => ({ candidate, score: candidate.score - (candidate.validation?.penalty ?? 0) }))
+            .sort((a, b) => b.score - a.score);
+        
+        const consistent = adjusted.filter(entry => !entry.candidate.validation?.contradictions.length);
+        if (consistent.length > 0) {
+            return consistent.map(entry => entry.candidate);
+        }
+        
+        const kept = adjusted.filter(entry => entry.score >= PERFORMANCE_CONFIG.MIN_CANDIDATE_SCORE);
+        return (kept.length > 0 ? kept : adjusted).map(entry => entry.candidate);
+    }
+}
+
+// Scores smartSearch results and marks the best release of each episode
+class ReleaseRanker {
+    private static groupPriority: string[] = RELEASE_RANKING_CONFIG.RELEASE_GROUP_PRIORITY.map(group => group.toLowerCase());
+    
+    static setGroupPriority(groups: readonly string[]): void {
+        this.groupPriority = groups.map(group => group.trim().toLowerCase()).filter(group => group.length > 0);
+    }
+    
+    static getGroupPriority(): readonly string[] {
+        return [...this.groupPriority];
+    }
+    
+    // Guessed (low-confidence, unconfirmed) episode numbers sort below the rest, so they are never the best
+    // release while a confirmed one exists. Within each group by score, with confidence breaking ties and
+    // remaining ties keeping their page order (sort is stable).
+    static rank<T extends DarkMahouTorrent>(torrents: readonly T[], opts: AnimeSmartSearchOptions): T[] {
+        const scored = torrents
+            .map(torrent => {
+                const confidence = torrent.episodeExtraction?.confidence ?? 'medium';
+                return {
+                    torrent,
+                    guessed: confidence === 'low' ? 1 : 0,
+                    confidence: CONFIDENCE_ORDER[confidence],
+                    score: ReleaseRanker.score(torrent, opts)
+                };
+            })
+            .sort((a, b) => a.guessed - b.guessed || b.score - a.score || b.confidence - a.confidence);
+        
+        const bestPerEpisode = new Set<string>();
+        return scored.map(({ torrent }) => {
+            const key = ReleaseRanker.episodeKey(torrent, opts);
+            const isBestRelease = !bestPerEpisode.has(key);
+            bestPerEpisode.add(key);
+            return { ...torrent, isBestRelease };
+        });
+    }
+    
+    static score(torrent: DarkMahouTorrent, opts: AnimeSmartSearchOptions): number {
+        const weights = RELEASE_RANKING_CONFIG.WEIGHTS;
+        const attributes = torrent.attributes;
+        
+        const versionBonus = Math.min(
+            RELEASE_RANKING_CONFIG.MAX_VERSION_BONUS,
+            Math.max(0, (attributes?.version ?? 1) - 1) * weights.version
+        );
+        
+        return ReleaseRanker.resolutionScore(torrent.resolution, opts.resolution)
+            + ReleaseRanker.groupScore(torrent.releaseGroup)
+            + ReleaseRanker.episodeShapeScore(torrent, opts)
+            + TorrentParser.releasePreference(attributes) * weights.releasePreference
+            + versionBonus;
+    }
+    
+    // Full points on the requested resolution, fewer the further away, half points when unknown
+    private static resolutionScore(resolution: string | undefined, requested: string | undefined): number {
+        const weight = RELEASE_RANKING_CONFIG.WEIGHTS.resolution;
+        const lines = ReleaseRanker.toLines(resolution);
+        if (lines === null) return weight / 2;
+        
+        const target = ReleaseRanker.toLines(requested) ?? RELEASE_RANKING_CONFIG.DEFAULT_RESOLUTION;
+        const steps = Math.abs(lines - target) / 360;
+        return Math.max(0, weight - steps * RELEASE_RANKING_CONFIG.RESOLUTION_PENALTY_PER_STEP);
+    }
+    
+    private static groupScore(releaseGroup: string | undefined): number {
+        if (!releaseGroup || this.groupPriority.length === 0) return 0;
+        
+        const index = this.groupPriority.indexOf(releaseGroup.toLowerCase());
+        if (index < 0) return 0;
+        return RELEASE_RANKING_CONFIG.WEIGHTS.releaseGroup * (this.groupPriority.length - index) / this.groupPriority.length;
+    }
+    
+    private static episodeShapeScore(torrent: DarkMahouTorrent, opts: AnimeSmartSearchOptions): number {
+        const wantsBatch = !!opts.batch;
+        return torrent.isBatch === wantsBatch ? RELEASE_RANKING_CONFIG.WEIGHTS.episodeShape : 0;
+    }
+    
+    // Results of an episode request all answer that episode, whether numbered relative to the season,
+    // absolute or inside a batch, so they share one best release. Batch requests keep one per range.
+    // Otherwise releases without a known episode or range cannot be grouped, so each one keeps its own key.
+    private static episodeKey(torrent: DarkMahouTorrent, opts: AnimeSmartSearchOptions): string {
+        if (opts.episodeNumber > 0 && !(torrent.isBatch && opts.batch)) {
+            return `requested:${opts.episodeNumber}`;
+        }
+        
+        const release = torrent.infoHash || torrent.name;
+        if (torrent.isBatch) {
+            const start = torrent.batch?.startEpisode ?? null;
+            const end = torrent.batch?.endEpisode ?? null;
+            return start !== null && end !== null ? `batch:${start}-${end}` : `batch:${release}`;
+        }
+        
+        const episode = torrent.episodeNumber ?? -1;
+        return `${torrent.contentKind ?? 'episode'}:${episode >= 0 ? episode : release}`;
+    }
+    
+    // "1080p" -> 1080, "4K" -> 2160
+    private static toLines(resolution: string | undefined): number | null {
+        if (!resolution) return null;
+        if (/4k/i.test(resolution)) return 2160;
+        
+        const lines = parseInt(resolution, 10);
+        return isNaN(lines) ? null : lines;
+    }
+}
+
+// Size parsing for magnet "xl" parameters and human-readable size labels
+class SizeParser {
+    // Release sites write "GB" for binary gigabytes, so both notations use 1024 steps
+    private static readonly UNIT_EXPONENTS: Record<string, number> = {
+        kb: 1, kib: 1,
+        mb: 2, mib: 2,
+        gb: 3, gib: 3,
+        tb: 4, tib: 4
+    };
+    
+    private static readonly FORMAT_UNITS = ['B', 'KiB', 'MiB', 'GiB', 'TiB'] as const;
+    
+    static parse(text: string): number | null {
+        const match = text.match(REGEX_PATTERNS.SIZE_TEXT);
+        if (!match) return null;
+        
+        const value = parseFloat(match[1].replace(',', '.'));
+        const exponent = SizeParser.UNIT_EXPONENTS[match[2].toLowerCase()];
+        if (isNaN(value) || value <= 0 || exponent === undefined) return null;
+        
+        return Math.round(value * Math.pow(1024, exponent));
+    }
+    
+    static fromMagnet(magnetLink: string): number | null {
+        const match = magnetLink.match(REGEX_PATTERNS.MAGNET_EXACT_LENGTH);
+        const bytes = match ? parseInt(match[1]) : NaN;
+        return bytes > 0 ? bytes : null;
+    }
+    
+    static format(bytes: number | null): string {
+        if (bytes === null || bytes <= 0) return PROVIDER_CONFIG.UNKNOWN_SIZE_LABEL;
+        
+        let value = bytes;
+        let unitIndex = 0;
+        while (value >= 1024 && unitIndex < SizeParser.FORMAT_UNITS.length - 1) {
+            value /= 1024;
+            unitIndex++;
+        }
+        
+        return `${unitIndex === 0 ? value : value.toFixed(2)} ${SizeParser.FORMAT_UNITS[unitIndex]}`;
+    }
+}
+
+// Map-backed storage, reads move an entry to the most recently used position
+class InMemoryCacheBackend implements CacheBackend {
+    private readonly _entries = new Map<CacheKey, CacheEntry<unknown>>();
+    
+    get size(): number {
+        return this._entries.size;
+    }
+    
+    get(key: CacheKey): CacheEntry<unknown> | undefined {
+        const entry = this._entries.get(key);
+        if (entry) {
+            this._entries.delete(key);
+            this._entries.set(key, entry);
+        }
+        return entry;
+    }
+    
+    set(key: CacheKey, entry: CacheEntry<unknown>): void {
+        this._entries.delete(key);
+        this._entries.set(key, entry);
+    }
+    
+    delete(key: CacheKey): boolean {
+        return this._entries.delete(key);
+    }
+    
+    keys(): CacheKey[] {
+        return Array.from(this._entries.keys());
+    }
+    
+    clear(): void {
+        this._entries.clear();
+    }
+}
+
+// Splits an anime page into magnet blocks, each with its episode heading and quality label
+class MagnetBlockParser {
+    private static readonly CONTEXT_WINDOW = 300;
+    
+    static parse(html: string): MagnetBlock[] {
+        const headings = Array.from(html.matchAll(REGEX_PATTERNS.EPISODE_HEADING)).map(match => ({
+            position: match.index ?? 0,
+            text: MagnetBlockParser.cleanText(match[2])
+        }));
+        const audioLabels = MagnetBlockParser.findAudioLabels(html);
+        
+        const anchors = Array.from(html.matchAll(REGEX_PATTERNS.MAGNET_LINK)).map(match => {
+            const start = match.index ?? 0;
+            const hrefEnd = start + match[0].length;
+            const anchorMatch = html.slice(hrefEnd, hrefEnd + MagnetBlockParser.CONTEXT_WINDOW).match(REGEX_PATTERNS.MAGNET_ANCHOR_TEXT);
+            return {
+                magnetLink: decodeHTMLEntities(match[0]),
+                start,
+                end: anchorMatch ? hrefEnd + anchorMatch[0].length : hrefEnd,
+                anchorText: anchorMatch ? MagnetBlockParser.cleanText(anchorMatch[1]) : ""
+            };
+        });
+        
+        return anchors.map((anchor, index) => {
+            const previousEnd = anchors[index - 1]?.end ?? 0;
+            const nextStart = anchors[index + 1]?.start ?? html.length;
+            
+            const contextBefore = MagnetBlockParser.cleanText(
+                html.slice(Math.max(previousEnd, anchor.start - MagnetBlockParser.CONTEXT_WINDOW), anchor.start)
+            );
+            const contextAfter = MagnetBlockParser.cleanText(
+                html.slice(anchor.end, Math.min(nextStart, anchor.end + MagnetBlockParser.CONTEXT_WINDOW))
+            );
+            
+            // The closest heading before the magnet applies to every quality listed under it
+            let episodeTitle = "";
+            for (const heading of headings) {
+                if (heading.position >= anchor.start) break;
+                episodeTitle = heading.text;
+            }
+            
+            // Labels before the magnet follow the heading, so the heading text itself is dropped
+            const headingIndex = episodeTitle ? contextBefore.lastIndexOf(episodeTitle) : -1;
+            const labelText = headingIndex >= 0 ? contextBefore.slice(headingIndex + episodeTitle.length) : contextBefore;
+            
+            const qualityLabel = REGEX_PATTERNS.QUALITY_LABEL.test(anchor.anchorText)
+                ? anchor.anchorText
+                : REGEX_PATTERNS.QUALITY_LABEL.test(labelText) ? labelText.slice(-80).trim() : "";
+            
+            return {
+                magnetLink: anchor.magnetLink,
+                downloadUrl: "",
+                episodeTitle,
+                qualityLabel,
+                audioLabel: REGEX_PATTERNS.AUDIO_KEYWORD.test(anchor.anchorText)
+                    ? anchor.anchorText
+                    : MagnetBlockParser.closestBefore(audioLabels, anchor.start),
+                contextBefore,
+                contextAfter
+            };
+        });
+    }
+    
+    // Attaches .torrent and torrent-host links to the closest magnet, links with no magnet nearby become their own block
+    static parseWithDownloads(html: string): MagnetBlock[] {
+        const blocks = MagnetBlockParser.parse(html);
+        const magnetPositions = Array.from(html.matchAll(REGEX_PATTERNS.MAGNET_LINK)).map(match => match.index ?? 0);
+        const downloads = MagnetBlockParser.findDownloadLinks(html);
+        
+        const attached = new Map<number, { url: string; distance: number }>();
+        const orphans: Array<{ url: string; position: number }> = [];
+        
+        for (const download of downloads) {
+            let closest = -1;
+            let closestDistance = Infinity;
+            magnetPositions.forEach((position, index) => {
+                const distance = Math.abs(position - download.position);
+                if (distance < closestDistance) {
+                    closest = index;
+                    closestDistance = distance;
+                }
+            });
+            
+            if (closest < 0 || closestDistance > MagnetBlockParser.CONTEXT_WINDOW) {
+                orphans.push(download);
+                continue;
+            }
+            
+            const current = attached.get(closest);
+            if (!current || closestDistance < current.distance) {
+                attached.set(closest, { url: download.url, distance: closestDistance });
+            }
+        }
+        
+        const withDownloads = blocks.map((block, index) => ({ ...block, downloadUrl: attached.get(index)?.url ?? "" }));
+        const audioLabels = MagnetBlockParser.findAudioLabels(html);
+        const magnetEnds = Array.from(html.matchAll(REGEX_PATTERNS.MAGNET_LINK)).map(match => (match.index ?? 0) + match[0].length);
+        const orphanBlocks = orphans.map(orphan => {
+            // Sizes and labels before the previous magnet or download belong to that release
+            const previousEnd = Math.max(
+                0,
+                ...magnetEnds.filter(end => end <= orphan.position),
+                ...downloads.filter(download => download.position < orphan.position).map(download => download.position)
+            );
+            const contextBefore = MagnetBlockParser.cleanText(
+                html.slice(Math.max(previousEnd, orphan.position - MagnetBlockParser.CONTEXT_WINDOW), orphan.position)
+            );
+            let episodeTitle = "";
+            for (const heading of html.matchAll(REGEX_PATTERNS.EPISODE_HEADING)) {
+                if ((heading.index ?? 0) >= orphan.position) break;
+                episodeTitle = MagnetBlockParser.cleanText(heading[2]);
+            }
+            return {
+                magnetLink: "",
+                downloadUrl: orphan.url,
+                episodeTitle,
+                qualityLabel: REGEX_PATTERNS.QUALITY_LABEL.test(contextBefore) ? contextBefore.slice(-80).trim() : "",
+                audioLabel: MagnetBlockParser.closestBefore(audioLabels, orphan.position),
+                contextBefore,
+                contextAfter: ""
+            };
+        });
+        
+        return [...withDownloads, ...orphanBlocks];
+    }
+    
+    // "Legendado", "Dublado" and "Dual Áudio" section titles and button labels
+    private static findAudioLabels(html: string): Array<{ position: number; text: string }> {
+        return Array.from(html.matchAll(REGEX_PATTERNS.AUDIO_LABEL)).map(match => ({
+            position: (match.index ?? 0) + match[0].length,
+            text: MagnetBlockParser.cleanText(match[2])
+        }));
+    }
+    
+    private static closestBefore(labels: ReadonlyArray<{ position: number; text: string }>, position: number): string {
+        let closest = "";
+        for (const label of labels) {
+            if (label.position > position) break;
+            closest = label.text;
+        }
+        return closest;
+    }
+    
+    // Only direct .torrent files count, Nyaa links are rewritten to their .torrent download since its URLs are
+    // predictable. Other trackers link to detail pages, which are not files. Relative links resolve against the active mirror.
+    private static findDownloadLinks(html: string): Array<{ url: string; position: number }> {
+        const links = new Map<number, string>();
+        for (const pattern of [REGEX_PATTERNS.TORRENT_FILE_LINK, REGEX_PATTERNS.NYAA_LINK]) {
+            for (const match of html.matchAll(pattern)) {
+                const href = decodeHTMLEntities(match[1]);
+                const nyaa = href.match(REGEX_PATTERNS.NYAA_TORRENT_ID);
+                const url = nyaa
+                    ? `${nyaa[1]}/download/${nyaa[2]}.torrent`
+                    : href.startsWith("/") ? MirrorManager.active + href : href;
+                if (/^https?:\/\//i.test(url)) {
+                    links.set(match.index ?? 0, url);
+                }
+            }
+        }
+        
+        return Array.from(links.entries())
+            .sort((a, b) => a[0] - b[0])
+            .map(([position, url]) => ({ url, position }));
+    }
+    
+    // Size labels sit right before the magnet button, or right after it on some older posts
+    static extractSize(block: MagnetBlock): number | null {
+        const labelSize = SizeParser.parse(block.qualityLabel);
+        if (labelSize !== null) {
+            return labelSize;
+        }
+        
+        // Closest label wins on the "before" side
+        const beforeSizes = block.contextBefore.match(new RegExp(REGEX_PATTERNS.SIZE_TEXT.source, 'gi'));
+        if (beforeSizes && beforeSizes.length > 0) {
+            return SizeParser.parse(beforeSizes[beforeSizes.length - 1]);
+        }
+        
+        // A size after the magnet only counts when it comes before the next release's quality label
+        const nextLabel = block.contextAfter.search(REGEX_PATTERNS.QUALITY_LABEL);
+        return SizeParser.parse(nextLabel >= 0 ? block.contextAfter.slice(0, nextLabel) : block.contextAfter);
+    }
+    
+    private static cleanText(fragment: string): string {
+        return decodeHTMLEntities(
+            fragment
+                .replace(/<[^>]*>/g, ' ')
+                .replace(/<[^>]*$/, ' ')
+                .replace(/^[^<]*?>/, ' ')
+        ).replace(/\s+/g, ' ').trim();
+    }
+}
+
+// Reads the info hash of a .torrent file: the SHA-1 of the bencoded info dictionary, byte for byte
+class TorrentFileParser {
+    private static readonly CHAR = { d: 0x64, e: 0x65, i: 0x69, l: 0x6c, colon: 0x3a, zero: 0x30, nine: 0x39 } as const;
+    
+    static infoHash(bytes: Uint8Array): string {
+        try {
+            const range = TorrentFileParser.findInfoDict(bytes);
+            return range ? TorrentFileParser.sha1Hex(bytes.subarray(range[0], range[1])) : "";
+        } catch (error) {
+            console.log("Invalid .torrent file: " + (error as Error).message);
+            return "";
+        }
+    }
+    
+    private static findInfoDict(bytes: Uint8Array): [number, number] | null {
+        if (bytes[0] !== this.CHAR.d) {
+            throw new Error("top level value is not a dictionary");
+        }
+        
+        let position = 1;
+        while (position < bytes.length && bytes[position] !== this.CHAR.e) {
+            const [key, valueStart] = TorrentFileParser.readString(bytes, position);
+            const valueEnd = TorrentFileParser.skipValue(bytes, valueStart);
+            if (key === "info") {
+                return [valueStart, valueEnd];
+            }
+            position = valueEnd;
+        }
+        return null;
+    }
+    
+    // Returns the offset right after the value starting at `position`
+    private static skipValue(bytes: Uint8Array, position: number): number {
+        const type = bytes[position];
+        
+        if (type === this.CHAR.i) {
+            const end = bytes.indexOf(this.CHAR.e, position);
+            if (end < 0) throw new Error(`unterminated integer at ${position}`);
+            return end + 1;
+        }
+        
+        if (type === this.CHAR.l || type === this.CHAR.d) {
+            let next = position + 1;
+            while (bytes[next] !== this.CHAR.e) {
+                if (next >= bytes.length) throw new Error(`unterminated ${type === this.CHAR.l ? "list" : "dictionary"} at ${position}`);
+                next = type === this.CHAR.d
+                    ? TorrentFileParser.skipValue(bytes, TorrentFileParser.readString(bytes, next)[1])
+                    : TorrentFileParser.skipValue(bytes, next);
+            }
+            return next + 1;
+        }
+        
+        return TorrentFileParser.readString(bytes, position)[1];
+    }
+    
+    // Byte strings are "<length>:<bytes>". Only keys are ever compared, so long values such as
+    // "pieces" are not decoded in full
+    private static readString(bytes: Uint8Array, position: number): [string, number] {
+        let length = 0;
+        let cursor = position;
+        while (bytes[cursor] >= this.CHAR.zero && bytes[cursor] <= this.CHAR.nine) {
+            length = length * 10 + (bytes[cursor] - this.CHAR.zero);
+            cursor++;
+        }
+        
+        if (cursor === position || bytes[cursor] !== this.CHAR.colon || cursor + 1 + length > bytes.length) {
+            throw new Error(`invalid byte string at ${position}`);
+        }
+        
+        const start = cursor + 1;
+        return [String.fromCharCode(...bytes.subarray(start, Math.min(start + length, start + 64))), start + length];
+    }
+    
+    private static sha1Hex(data: Uint8Array): string {
+        const bitLength = data.length * 8;
+        const paddedLength = Math.ceil((data.length + 9) / 64) * 64;
+        const padded = new Uint8Array(paddedLength);
+        padded.set(data);
+        padded[data.length] = 0x80;
+        
+        const view = new DataView(padded.buffer);
+        view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+        view.setUint32(paddedLength - 4, bitLength >>> 0);
+        
+        const hash = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+        const words = new Uint32Array(80);
+        const rotate = (value: number, bits: number) => (value << bits) | (value >>> (32 - bits));
+        
+        for (let offset = 0; offset < paddedLength; offset += 64) {
+            for (let i = 0; i < 16; i++) words[i] = view.getUint32(offset + i * 4);
+            for (let i = 16; i < 80; i++) words[i] = rotate(words[i - 3] ^ words[i - 8] ^ words[i - 14] ^ words[i - 16], 1);
+            
+            let [a, b, c, d, e] = hash;
+            for (let i = 0; i < 80; i++) {
+                const [f, k] = i < 20 ? [(b & c) | (~b & d), 0x5a827999]
+                    : i < 40 ? [b ^ c ^ d, 0x6ed9eba1]
+                    : i < 60 ? [(b & c) | (b & d) | (c & d), 0x8f1bbcdc]
+                    : [b ^ c ^ d, 0xca62c1d6];
+                const temp = (rotate(a, 5) + f + e + k + words[i]) >>> 0;
+                e = d;
+                d = c;
+                c = rotate(b, 30) >>> 0;
+                b = a;
+                a = temp;
+            }
+            
+            hash[0] = (hash[0] + a) >>> 0;
+            hash[1] = (hash[1] + b) >>> 0;
+            hash[2] = (hash[2] + c) >>> 0;
+            hash[3] = (hash[3] + d) >>> 0;
+            hash[4] = (hash[4] + e) >>> 0;
+        }
+        
+        return hash.map(word => word.toString(16).padStart(8, '0')).join('');
+    }
+}
+
+// Fixed-bucket latency histogram plus a window of recent samples for the percentiles
+class LatencyHistogram {
+    private count = 0;
+    private totalMs = 0;
+    private max = 0;
+    private readonly samples: number[] = [];
+    private readonly bucketCounts: number[] = new Array(PERFORMANCE_CONFIG.LATENCY_BUCKETS_MS.length + 1).fill(0);
+    
+    record(time: number): void {
+        const value = Math.max(0, time);
+        this.count++;
+        this.totalMs += value;
+        this.max = Math.max(this.max, value);
+        
+        this.samples.push(value);
+        if (this.samples.length > PERFORMANCE_CONFIG.LATENCY_SAMPLE_WINDOW) {
+            this.samples.shift();
+        }
+        
+        const bucket = PERFORMANCE_CONFIG.LATENCY_BUCKETS_MS.findIndex(limit => value <= limit);
+        this.bucketCounts[bucket < 0 ? this.bucketCounts.length - 1 : bucket]++;
+    }
+    
+    summary(): LatencySummary {
+        const sorted = [...this.samples].sort((a, b) => a - b);
+        const limits = PERFORMANCE_CONFIG.LATENCY_BUCKETS_MS;
+        
+        const buckets: Record<string, number> = {};
+        limits.forEach((limit, index) => {
+            buckets[`<=${limit}`] = this.bucketCounts[index];
+        });
+        buckets[`>${limits[limits.length - 1]}`] = this.bucketCounts[limits.length];
+        
+        return {
+            count: this.count,
+            totalMs: this.totalMs,
+            p50: LatencyHistogram.percentile(sorted, 0.5),
+            p95: LatencyHistogram.percentile(sorted, 0.95),
+            max: this.max,
+            buckets
+        };
+    }
+    
+    // Nearest-rank percentile, 0 for an empty window
+    private static percentile(sorted: readonly number[], fraction: number): number {
+        if (sorted.length === 0) return 0;
+        return sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)];
+    }
+}
+
+// High-performance cache implementation with TypeScript generics
+class PerformanceCache {
+    private static _backend: CacheBackend = new InMemoryCacheBackend();
+    private static _metrics: PerformanceMetrics = {
+        searchTime: 0,
+        parseTime: 0,
+        cacheHits: 0,
+        cacheMisses: 0,
+        fuzzyMatchCount: 0,
+        requestsStarted: 0,
+        requestsCoalesced: 0
+    };
+    private static _stages = PerformanceCache.createStages();
+    private static _hosts = new Map<string, { requests: number; statuses: Record<string, number>; errors: Record<HTTPErrorKind, number> }>();
+    
+    static setBackend(backend: CacheBackend): void {
+        this._backend = backend;
+    }
+    
+    static get<T>(namespace: CacheNamespace, key: string): T | null {
+        const cacheKey = this.createCacheKey(namespace, key);
+        const entry = this._backend.get(cacheKey);
+        
+        if (!entry) {
+            this._metrics.cacheMisses++;
+            return null;
+        }
+        
+        // Check TTL
+        if (this.isExpired(entry)) {
+            this._backend.delete(cacheKey);
+            this._metrics.cacheMisses++;
+            return null;
+        }
+        
+        this._metrics.cacheHits++;
+        return entry.data as T;
+    }
+    
+    // Reads a live entry without touching the hit/miss metrics
+    static peek<T>(namespace: CacheNamespace, key: string): T | null {
+        const entry = this._backend.get(this.createCacheKey(namespace, key));
+        return entry && !this.isExpired(entry) ? entry.data as T : null;
+    }
+    
+    static set<T>(namespace: CacheNamespace, key: string, data: T): void {
+        const cacheKey = this.createCacheKey(namespace, key);
+        
+        // Prevent cache overflow by evicting the least recently used entry
+        if (this._backend.size >= PERFORMANCE_CONFIG.MAX_CACHE_SIZE && !this._backend.get(cacheKey)) {
+            const leastRecentKey = this._backend.keys()[0];
+            if (leastRecentKey) this._backend.delete(leastRecentKey);
         }
         
-        const cacheKey = this.createCacheKey(key);
         const entry: CacheEntry<T> = {
             data,
             timestamp: Date.now() as Timestamp,
-            key: cacheKey
+            key: cacheKey,
+            namespace,
+            ttl: PERFORMANCE_CONFIG.CACHE_TTL_MS[namespace]
+        };
+        
+        this._backend.set(cacheKey, entry);
+    }
+    
+    // Removes every entry whose key starts with the prefix, e.g. "torrents:https://darkmahou.io/dandadan"
+    static invalidateByPrefix(prefix: string): number {
+        const normalizedPrefix = this.normalizeKey(prefix);
+        let removed = 0;
+        
+        for (const key of this._backend.keys()) {
+            if (key.startsWith(normalizedPrefix) && this._backend.delete(key)) {
+                removed++;
+            }
+        }
+        
+        return removed;
+    }
+    
+    static exportSnapshot(): CacheSnapshot {
+        const entries: CacheEntry<unknown>[] = [];
+        for (const key of this._backend.keys()) {
+            const entry = this._backend.get(key);
+            if (entry && !this.isExpired(entry)) {
+                entries.push(entry);
+            }
+        }
+        
+        return {
+            version: PERFORMANCE_CONFIG.CACHE_SNAPSHOT_VERSION,
+            exportedAt: Date.now(),
+            entries
         };
+    }
+    
+    // Restores unexpired entries, keeping their original timestamps so TTLs still apply
+    static importSnapshot(snapshot: CacheSnapshot): number {
+        if (!snapshot || snapshot.version !== PERFORMANCE_CONFIG.CACHE_SNAPSHOT_VERSION || !Array.isArray(snapshot.entries)) {
+            console.log("Ignoring incompatible cache snapshot");
+            return 0;
+        }
+        
+        let imported = 0;
+        for (const entry of snapshot.entries) {
+            if (!entry?.key || !(entry.namespace in PERFORMANCE_CONFIG.CACHE_TTL_MS) || this.isExpired(entry)) {
+                continue;
+            }
+            
+            if (this._backend.size >= PERFORMANCE_CONFIG.MAX_CACHE_SIZE) {
+                const leastRecentKey = this._backend.keys()[0];
+                if (leastRecentKey) this._backend.delete(leastRecentKey);
+            }
+            
+            this._backend.set(entry.key, entry);
+            imported++;
+        }
         
-        this._cache.set(cacheKey, entry);
+        return imported;
+    }
+    
+    private static isExpired(entry: CacheEntry<unknown>): boolean {
+        return Date.now() - entry.timestamp > entry.ttl;
+    }
+    
+    private static createCacheKey(namespace: CacheNamespace, key: string): CacheKey {
+        return this.normalizeKey(`${namespace}:${key}`) as CacheKey;
     }
     
-    private static createCacheKey(key: string): CacheKey {
-        return key.toLowerCase().replace(/\s+/g, '_') as CacheKey;
+    private static normalizeKey(key: string): string {
+        return key.toLowerCase().replace(/\s+/g, '_');
     }
     
     static getMetrics(): ReadonlyPerformanceMetrics {
-        return { ...this._metrics };
+        const lookups = this._metrics.cacheHits + this._metrics.cacheMisses;
+        const stages = {} as Record<MetricStage, LatencySummary>;
+        for (const [stage, histogram] of Object.entries(this._stages)) {
+            stages[stage as MetricStage] = histogram.summary();
+        }
+        
+        const hosts: Record<string, HostStats> = {};
+        this._hosts.forEach((stats, host) => {
+            hosts[host] = { requests: stats.requests, statuses: { ...stats.statuses }, errors: { ...stats.errors } };
+        });
+        
+        return {
+            ...this._metrics,
+            cacheEfficiency: lookups > 0 ? this._metrics.cacheHits / lookups : 0,
+            stages,
+            hosts
+        };
+    }
+    
+    static resetMetrics(): void {
+        this._metrics = {
+            searchTime: 0,
+            parseTime: 0,
+            cacheHits: 0,
+            cacheMisses: 0,
+            fuzzyMatchCount: 0,
+            requestsStarted: 0,
+            requestsCoalesced: 0
+        };
+        this._stages = PerformanceCache.createStages();
+        this._hosts.clear();
+    }
+    
+    static recordStage(stage: MetricStage, time: number): void {
+        this._stages[stage].record(time);
+    }
+    
+    // Times an async stage, failures are timed too
+    static async measure<T>(stage: MetricStage, task: () => Promise<T>): Promise<T> {
+        const startTime = Date.now();
+        try {
+            return await task();
+        } finally {
+            this.recordStage(stage, Date.now() - startTime);
+        }
+    }
+    
+    // One call per HTTP attempt, retries included; status is 0 when no response came back
+    static recordHTTPResult(url: string, status: number, errorKind: HTTPErrorKind | null): void {
+        const host = url.match(REGEX_PATTERNS.URL_ORIGIN)?.[1].replace(/^https?:\/\//i, '').toLowerCase() ?? "unknown";
+        let stats = this._hosts.get(host);
+        if (!stats) {
+            stats = {
+                requests: 0,
+                statuses: {},
+                errors: { timeout: 0, network: 0, rate_limited: 0, server_error: 0, client_error: 0, parse_error: 0 }
+            };
+            this._hosts.set(host, stats);
+        }
+        
+        stats.requests++;
+        if (status > 0) {
+            stats.statuses[String(status)] = (stats.statuses[String(status)] ?? 0) + 1;
+        }
+        if (errorKind) {
+            stats.errors[errorKind]++;
+        }
+    }
+    
+    private static createStages(): Record<MetricStage, LatencyHistogram> {
+        return {
+            searchFetch: new LatencyHistogram(),
+            pageExtraction: new LatencyHistogram(),
+            torrentPageFetch: new LatencyHistogram(),
+            parse: new LatencyHistogram()
+        };
     }
     
-    static incrementFuzzyCount(): void {
-        this._metrics.fuzzyMatchCount++;
+    static incrementFuzzyCount(count: number = 1): void {
+        this._metrics.fuzzyMatchCount += count;
     }
     
     static recordSearchTime(time: number): void {
@@ -484,6 +2217,117 @@ class PerformanceCache {
     
     static recordParseTime(time: number): void {
         this._metrics.parseTime += time;
+        this.recordStage('parse', time);
+    }
+    
+    static recordRequest(coalesced: boolean): void {
+        if (coalesced) {
+            this._metrics.requestsCoalesced++;
+        } else {
+            this._metrics.requestsStarted++;
+        }
+    }
+}
+
+// Structural parsing of the result cards on search and listing pages
+class SearchResultParser {
+    static parse(html: string): SearchResultEntry[] {
+        try {
+            const results = SearchResultParser.parseWithDocument(html);
+            if (results.length > 0) {
+                return results;
+            }
+            // A theme change can break every selector while the links are still there
+            console.log("Document parsing found no result cards, falling back to regex");
+        } catch (error) {
+            console.log("Document parsing failed, falling back to regex: " + (error as Error).message);
+        }
+        return SearchResultParser.parseWithRegex(html);
+    }
+    
+    private static parseWithDocument(html: string): SearchResultEntry[] {
+        const $ = LoadDoc(html);
+        const results: SearchResultEntry[] = [];
+        const seenUrls = new Set<string>();
+        
+        // Containers go from most to least specific, the first one with results wins
+        for (const containerSelector of SEARCH_RESULT_SELECTORS.CONTAINERS) {
+            $(containerSelector).each((_: number, element: DocSelection) => {
+                if (element.closest(SEARCH_RESULT_SELECTORS.EXCLUDED_ANCESTORS).length() > 0) {
+                    return;
+                }
+                
+                const entry = SearchResultParser.parseResultElement(element);
+                if (entry && !seenUrls.has(entry.url)) {
+                    seenUrls.add(entry.url);
+                    results.push(entry);
+                }
+            });
+            
+            if (results.length > 0) break;
+        }
+        
+        console.log("Parsed " + results.length + " result cards");
+        return results;
+    }
+    
+    private static parseResultElement(element: DocSelection): SearchResultEntry | null {
+        const link = element.find(SEARCH_RESULT_SELECTORS.LINK).first();
+        const url = SearchResultParser.toAbsoluteURL(link.attr("href") ?? "");
+        if (!url) return null;
+        
+        let title = "";
+        for (const selector of SEARCH_RESULT_SELECTORS.TITLES) {
+            title = element.find(selector).first().text().trim();
+            if (title) break;
+        }
+        title = decodeHTMLEntities(title || link.attr("title") || "").replace(/\s+/g, ' ').trim();
+        if (!title) return null;
+        
+        const image = element.find(SEARCH_RESULT_SELECTORS.THUMBNAIL).first();
+        const thumbnail = image.attr("data-src") || image.attr("src") || "";
+        
+        return {
+            url,
+            title,
+            thumbnail,
+            year: SeasonResolver.extractYear(element.text()),
+            type: element.find(SEARCH_RESULT_SELECTORS.TYPE).first().text().trim()
+        };
+    }
+    
+    // Regex fallback keeps working without LoadDoc, limited to the listing section
+    private static parseWithRegex(html: string): SearchResultEntry[] {
+        const sectionStart = html.search(REGEX_PATTERNS.LISTING_SECTION);
+        const section = sectionStart >= 0 ? html.slice(sectionStart) : html;
+        
+        const results: SearchResultEntry[] = [];
+        const seenUrls = new Set<string>();
+        const linkRegex = new RegExp(REGEX_PATTERNS.ANIME_PAGE_LINK.source, 'gi');
+        let match: RegExpExecArray | null;
+        
+        while ((match = linkRegex.exec(section)) !== null) {
+            const url = SearchResultParser.toAbsoluteURL(match[1]);
+            if (!url || seenUrls.has(url)) continue;
+            seenUrls.add(url);
+            
+            results.push({
+                url,
+                title: decodeHTMLEntities(match[2] || ""),
+                thumbnail: "",
+                year: null,
+                type: ""
+            });
+        }
+        
+        return results;
+    }
+    
+    // Links to other hosts (ads, partner sites) are never result pages
+    private static toAbsoluteURL(href: string): string {
+        if (href.startsWith("http")) return MirrorManager.isMirrorURL(href) ? href : "";
+        if (href.startsWith("/")) return MirrorManager.active + href;
+        return "";
     }
 }
 
@@ -498,63 +2342,48 @@ class AnimePageExtractor {
         }
         return this._fuzzyMatcher;
     }
-    static extractPageURL(html: string, query: string): string {
+    // Scores the result cards of a single search page, skipping URLs already seen on earlier pages
+    static scoreResultPage(
+        html: string,
+        query: string,
+        seenUrls: ReadonlySet<string> = new Set(),
+        variants: readonly string[] = [query]
+    ): { readonly matches: ScoreMatch[]; readonly skipped: SkippedCandidate[]; readonly resultCount: number } {
+        const potentialLinks: ScoreMatch[] = [];
+        const skipped: SkippedCandidate[] = [];
+        
         try {
-            console.log("Extracting anime page URL for query: " + query);
-            
-            // Check cache first
-            const cacheKey = `page_extract_${query}`;
-            const cached = PerformanceCache.get<string>(cacheKey);
-            if (cached) {
-                console.log("Cache hit for page extraction: " + query);
-                return cached;
-            }
-            
-            const potentialLinks: ScoreMatch[] = [];
-            let match: RegExpExecArray | null;
-            const linkRegex = new RegExp(REGEX_PATTERNS.ANIME_PAGE_LINK.source, 'gi');
-            let processedCount = 0;
+            console.log("Extracting anime page candidates for query: " + query);
             
-            while ((match = linkRegex.exec(html)) !== null) {
-                const url = match[1];
-                const title = match[2] || "";
+            const entries = SearchResultParser.parse(html);
+            for (const entry of entries) {
+                const { url, title } = entry;
                 
                 // Enhanced URL filtering
-                if (AnimePageExtractor.shouldSkipURL(url) || title.length < PERFORMANCE_CONFIG.MIN_TITLE_LENGTH) {
+                const skipReason: SkipReason | null =
+                    seenUrls.has(url) ? 'duplicate' :
+                    AnimePageExtractor.shouldSkipURL(url) ? 'excluded_url' :
+                    title.length < PERFORMANCE_CONFIG.MIN_TITLE_LENGTH ? 'title_too_short' :
+                    null;
+                if (skipReason) {
+                    skipped.push({ url, title, reason: skipReason });
                     continue;
                 }
                 
-                const matchResult = AnimePageExtractor.calculateAdvancedMatchScore(query, title, url);
+                const matchResult = AnimePageExtractor.scoreAgainstVariants(variants, title, url);
                 if (matchResult.score > 0) {
-                    potentialLinks.push(matchResult);
+                    potentialLinks.push({ ...matchResult, year: entry.year, type: entry.type });
                     console.log(`Found potential match: ${title} (${url}) - Score: ${matchResult.score} (Strategy: ${matchResult.strategy})`);
-                    
-                    // Early exit for very high scores
-                    if (matchResult.score >= PERFORMANCE_CONFIG.EARLY_EXIT_SCORE) {
-                        console.log("Early exit triggered for high-scoring match");
-                        const result = matchResult.url;
-                        PerformanceCache.set(cacheKey, result);
-                        return result;
-                    }
-                }
-                
-                processedCount++;
-                // Limit fuzzy matching candidates to prevent performance degradation
-                if (processedCount >= PERFORMANCE_CONFIG.MAX_FUZZY_CANDIDATES * 2) {
-                    console.log("Limiting fuzzy matching candidates for performance");
-                    break;
+                } else {
+                    skipped.push({ url, title, reason: 'no_score', score: 0 });
                 }
             }
             
-            const result = AnimePageExtractor.selectBestMatch(potentialLinks);
-            if (result) {
-                PerformanceCache.set(cacheKey, result);
-            }
-            return result;
+            return { matches: potentialLinks, skipped, resultCount: entries.length };
             
         } catch (error) {
-            console.log("Error extracting anime page URL: " + (error as Error).message);
-            return "";
+            console.log("Error extracting anime page candidates: " + (error as Error).message);
+            return { matches: potentialLinks, skipped, resultCount: 0 };
         }
     }
     
@@ -574,8 +2403,6 @@ class AnimePageExtractor {
     
     // Optimized matching with early termination and intelligent strategy selection
     private static calculateAdvancedMatchScore(query: string, title: string, url: string): ScoreMatch {
-        PerformanceCache.incrementFuzzyCount();
-        
         // Quick exact match check first (fastest)
         const queryLower = query.toLowerCase();
         const titleLower = title.toLowerCase();
@@ -631,19 +2458,37 @@ class AnimePageExtractor {
         // Expensive fuzzy matching only as last resort
         const normalizedQuery = this.fuzzyMatcher.normalize(query);
         const normalizedTitle = this.fuzzyMatcher.normalize(title);
-        const fuzzyScore = this.fuzzyMatcher.match(normalizedQuery, normalizedTitle);
+        const fuzzyResult = this.fuzzyMatcher.matchWithStrategy(normalizedQuery, normalizedTitle);
         
-        const finalScore = isFuzzyScore(fuzzyScore) ? fuzzyScore : 0 as FuzzyScore;
+        const finalScore = isFuzzyScore(fuzzyResult.score) ? fuzzyResult.score : 0 as FuzzyScore;
         
         return {
             url,
             title,
             score: finalScore,
-            strategy: 'fuzzy',
+            strategy: fuzzyResult.strategy,
             normalizedTitle: isNormalizedString(normalizedTitle) ? normalizedTitle : undefined
         };
     }
     
+    // Best score over every spelling of the query, the first variant wins ties
+    private static scoreAgainstVariants(variants: readonly string[], title: string, url: string): ScoreMatch {
+        let best: ScoreMatch | null = null;
+        for (const variant of variants) {
+            const match = AnimePageExtractor.calculateAdvancedMatchScore(variant, title, url);
+            if (!best || match.score > best.score) {
+                best = match;
+            }
+            if (match.score === 100) break;
+        }
+        return best!;
+    }
+    
+    // Public entry point to the scoring used for search results, mainly for corpus evaluation
+    static scoreTitle(query: string, title: string, url: string = ""): ScoreMatch {
+        return AnimePageExtractor.calculateAdvancedMatchScore(query, title, url);
+    }
+    
     // Extract meaningful slug from URL for matching
     private static extractSlugFromURL(url: string): string {
         const slugMatch = url.match(/\/([^\/]+)\/?$/);
@@ -693,11 +2538,11 @@ class AnimePageExtractor {
         return 0;
     }
     
-    // Enhanced selection logic with better scoring and fallback strategies
-    private static selectBestMatch(potentialLinks: ScoreMatch[]): string {
+    // Ranks the matches and keeps those above the threshold (seasons, movies and OVAs live on separate pages)
+    static rankCandidates(potentialLinks: ScoreMatch[]): ScoreMatch[] {
         if (potentialLinks.length === 0) {
             console.log("No anime page found");
-            return "";
+            return [];
         }
         
         // Sort by score (highest first), then by strategy preference
@@ -707,9 +2552,12 @@ class AnimePageExtractor {
             }
             // Prefer exact matches over fuzzy matches when scores are equal
             const strategyOrder: Record<MatchStrategy, number> = {
-                'exact': 4,
-                'fuzzy': 3,
-                'normalized': 2,
+                'exact': 7,
+                'fuzzy': 6,
+                'normalized': 5,
+                'tokenSort': 4,
+                'tokenSet': 3,
+                'jaroWinkler': 2,
                 'phonetic': 1
             };
             return (strategyOrder[b.strategy] || 0) - (strategyOrder[a.strategy] || 0);
@@ -718,62 +2566,307 @@ class AnimePageExtractor {
         const bestMatch = potentialLinks[0];
         console.log(`Best match: ${bestMatch.title} - ${bestMatch.url} (Score: ${bestMatch.score}, Strategy: ${bestMatch.strategy})`);
         
+        // The best match is always kept so low-scoring queries behave as before
+        const candidates = [
+            bestMatch,
+            ...potentialLinks.slice(1).filter(match => match.score >= PERFORMANCE_CONFIG.MIN_CANDIDATE_SCORE)
+        ].slice(0, PERFORMANCE_CONFIG.MAX_PAGE_CANDIDATES);
+        
         // Additional logging for debugging
-        if (potentialLinks.length > 1) {
-            console.log(`Alternative matches found (${potentialLinks.length - 1}):`);
-            potentialLinks.slice(1, 3).forEach((match, index) => {
+        if (candidates.length > 1) {
+            console.log(`Additional candidate pages (${candidates.length - 1}):`);
+            candidates.slice(1).forEach((match, index) => {
                 console.log(`  ${index + 2}. ${match.title} - Score: ${match.score} (${match.strategy})`);
             });
         }
         
-        return bestMatch.url;
+        return candidates;
+    }
+}
+
+// Parses the WordPress RSS feed and the homepage release listing
+class LatestReleasesParser {
+    static parseFeed(xml: string): LatestRelease[] {
+        const releases: LatestRelease[] = [];
+        const itemRegex = new RegExp(REGEX_PATTERNS.FEED.ITEM.source, 'gi');
+        let match: RegExpExecArray | null;
+        
+        while ((match = itemRegex.exec(xml)) !== null && releases.length < PERFORMANCE_CONFIG.MAX_LATEST_ITEMS) {
+            const item = match[1];
+            const url = item.match(REGEX_PATTERNS.FEED.LINK)?.[1]?.trim() ?? "";
+            if (!url) continue;
+            
+            const title = decodeHTMLEntities(item.match(REGEX_PATTERNS.FEED.TITLE)?.[1]?.trim() ?? "");
+            const pubDate = item.match(REGEX_PATTERNS.FEED.PUB_DATE)?.[1]?.trim();
+            const content = item.match(REGEX_PATTERNS.FEED.CONTENT)?.[1];
+            
+            releases.push({
+                title,
+                url,
+                date: LatestReleasesParser.toISODate(pubDate),
+                content: content ? decodeHTMLEntities(content) : undefined
+            });
+        }
+        
+        return releases;
+    }
+    
+    // The homepage release listing uses the same cards as the search results
+    static parseHomepage(html: string): LatestRelease[] {
+        return SearchResultParser.parse(html)
+            .filter(entry => !EXCLUDED_URL_PATTERNS.some(pattern => entry.url.toLowerCase().includes(pattern)))
+            .slice(0, PERFORMANCE_CONFIG.MAX_LATEST_ITEMS)
+            .map(entry => ({ title: entry.title, url: entry.url }));
+    }
+    
+    private static toISODate(pubDate: string | undefined): string | undefined {
+        if (!pubDate) return undefined;
+        const time = Date.parse(pubDate);
+        return isNaN(time) ? undefined : new Date(time).toISOString();
+    }
+}
+
+// Shares one in-flight promise between concurrent callers asking for the same key. The cache is
+// only filled once a request finishes, so parallel searches for the same media would otherwise refetch.
+class RequestCoalescer {
+    private static readonly inFlight = new Map<string, Promise<unknown>>();
+    
+    static run<T>(key: string, task: () => Promise<T>, recordMetrics: boolean = true): Promise<T> {
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            if (recordMetrics) PerformanceCache.recordRequest(true);
+            return pending as Promise<T>;
+        }
+        
+        if (recordMetrics) PerformanceCache.recordRequest(false);
+        const promise = task().finally(() => this.inFlight.delete(key));
+        this.inFlight.set(key, promise);
+        return promise;
+    }
+    
+    static get size(): number {
+        return this.inFlight.size;
+    }
+}
+
+// Queues async tasks so that at most `limit` run at the same time
+class ConcurrencyLimiter {
+    private active = 0;
+    private readonly queue: Array<() => void> = [];
+    
+    constructor(private readonly limit: number) {}
+    
+    async run<T>(task: () => Promise<T>): Promise<T> {
+        if (this.active >= this.limit) {
+            // The finishing task hands its slot straight over, so a new caller cannot take it in between
+            await new Promise<void>(resolve => this.queue.push(resolve));
+        } else {
+            this.active++;
+        }
+        
+        try {
+            return await task();
+        } finally {
+            const next = this.queue.shift();
+            if (next) {
+                next();
+            } else {
+                this.active--;
+            }
+        }
+    }
+}
+
+// Caps the HTTP attempts one search may make, retries and mirror failover included
+class RequestBudget {
+    private used = 0;
+    
+    constructor(private readonly limit: number) {}
+    
+    get exhausted(): boolean {
+        return this.used >= this.limit;
+    }
+    
+    take(): boolean {
+        if (this.exhausted) return false;
+        this.used++;
+        return true;
     }
 }
 
 class HTTPClient {
-    // Generic HTTP client with Result type for better error handling
+    private static readonly limiter = new ConcurrencyLimiter(HTTP_CONFIG.MAX_CONCURRENT_REQUESTS);
+    private static options: HTTPClientOptions = {
+        maxRetries: HTTP_CONFIG.MAX_RETRIES,
+        baseDelayMs: HTTP_CONFIG.BASE_DELAY_MS,
+        maxDelayMs: HTTP_CONFIG.MAX_DELAY_MS,
+        timeoutMs: HTTP_CONFIG.TIMEOUT_MS
+    };
+    
+    static configure(overrides: Partial<HTTPClientOptions>): void {
+        this.options = { ...this.options, ...overrides };
+    }
+    
+    // Generic HTTP client with Result type, retries with backoff and a shared concurrency limit
     static async fetchWithUserAgent<T = string>(
         url: string, 
-        parser?: (response: Response) => Promise<T>
-    ): Promise<Result<T, { status: number; message: string }>> {
+        parser?: (response: Response) => Promise<T>,
+        options: RequestOptions = {}
+    ): Promise<Result<T, HTTPError>> {
+        const { maxRetries } = this.options;
+        const { budget, recordMetrics = true, stage } = options;
+        let lastError: HTTPError = { status: 0, message: 'No attempt made', kind: 'network' };
+        
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+            if (budget && !budget.take()) {
+                console.log("Request budget exhausted, skipping " + url);
+                lastError = { status: 0, message: 'Request budget exhausted', kind: 'network' };
+                break;
+            }
+            
+            const outcome = await this.limiter.run(() => stage && recordMetrics
+                ? PerformanceCache.measure(stage, () => this.attempt(url, parser, recordMetrics))
+                : this.attempt(url, parser, recordMetrics));
+            
+            if (outcome.result.success) {
+                return outcome.result;
+            }
+            
+            lastError = outcome.result.error;
+            if (!this.isRetryable(lastError) || attempt === maxRetries) {
+                break;
+            }
+            
+            const delay = outcome.retryAfterMs ?? this.backoffDelay(attempt);
+            if (delay > HTTP_CONFIG.MAX_RETRY_AFTER_MS) {
+                console.log(`Retry-After of ${delay}ms for ${url} is too long, giving up`);
+                break;
+            }
+            
+            console.log(`Request to ${url} failed (${lastError.kind}: ${lastError.message}), retrying in ${delay}ms`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+        
+        return { success: false, error: lastError };
+    }
+    
+    private static async attempt<T>(
+        url: string,
+        parser: ((response: Response) => Promise<T>) | undefined,
+        recordMetrics: boolean
+    ): Promise<{ result: Result<T, HTTPError>; retryAfterMs: number | null }> {
+        const controller = typeof AbortController !== "undefined" ? new AbortController() : null;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        
+        // Racing the timer keeps the timeout working where fetch ignores the abort signal
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                controller?.abort();
+                reject(new Error(`Timed out after ${this.options.timeoutMs}ms`));
+            }, this.options.timeoutMs);
+        });
+        
+        let response: Response;
         try {
-            const response = await fetch(url, {
-                headers: {
-                    "User-Agent": PROVIDER_CONFIG.USER_AGENT
-                }
-            });
+            response = await Promise.race([
+                fetch(url, {
+                    headers: {
+                        "User-Agent": PROVIDER_CONFIG.USER_AGENT
+                    },
+                    ...(controller ? { signal: controller.signal } : {})
+                }),
+                timeout
+            ]);
+        } catch (error) {
+            clearTimeout(timer);
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            const kind: HTTPErrorKind = /timed out|abort/i.test(message) ? 'timeout' : 'network';
+            if (recordMetrics) PerformanceCache.recordHTTPResult(url, 0, kind);
+            return { result: { success: false, error: { status: 0, message, kind } }, retryAfterMs: null };
+        }
+        if (recordMetrics) {
+            PerformanceCache.recordHTTPResult(url, response.status, response.ok ? null : this.classifyStatus(response.status));
+        }
 
-            if (!response.ok) {
-                return {
+        if (!response.ok) {
+            clearTimeout(timer);
+            return {
+                result: {
                     success: false,
                     error: {
                         status: response.status,
-                        message: `HTTP ${response.status}: ${response.statusText}`
+                        message: `HTTP ${response.status}: ${response.statusText}`,
+                        kind: this.classifyStatus(response.status)
                     }
-                };
-            }
-
-            const data = parser ? await parser(response) : await response.text() as T;
-            return { success: true, data };
+                },
+                retryAfterMs: response.status === 429 || response.status === 503
+                    ? this.parseRetryAfter(response.headers.get("Retry-After"))
+                    : null
+            };
+        }
 
+        // The timer keeps running until the body is read, a server can stall after sending the headers
+        try {
+            const data = await Promise.race([
+                parser ? parser(response) : response.text() as Promise<T>,
+                timeout
+            ]);
+            return { result: { success: true, data }, retryAfterMs: null };
         } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
             return {
-                success: false,
-                error: {
-                    status: 0,
-                    message: error instanceof Error ? error.message : 'Unknown error'
-                }
+                result: {
+                    success: false,
+                    error: {
+                        status: response.status,
+                        message,
+                        kind: /timed out|abort/i.test(message) ? 'timeout' : 'parse_error'
+                    }
+                },
+                retryAfterMs: null
             };
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+    
+    private static classifyStatus(status: number): HTTPErrorKind {
+        if (status === 429) return 'rate_limited';
+        if (status === 408) return 'timeout';
+        return status >= 500 ? 'server_error' : 'client_error';
+    }
+    
+    private static isRetryable(error: HTTPError): boolean {
+        if (error.kind === 'network' || error.kind === 'timeout') return true;
+        return (HTTP_CONFIG.RETRYABLE_STATUSES as readonly number[]).includes(error.status);
+    }
+    
+    // Exponential backoff with equal jitter, half fixed and half random
+    private static backoffDelay(attempt: number): number {
+        const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * Math.pow(2, attempt));
+        return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+    }
+    
+    // Retry-After is either a number of seconds or an HTTP date
+    private static parseRetryAfter(header: string | null): number | null {
+        if (!header) return null;
+        
+        const seconds = Number(header.trim());
+        if (!isNaN(seconds)) {
+            return Math.max(0, seconds * 1000);
         }
+        
+        const date = Date.parse(header);
+        return isNaN(date) ? null : Math.max(0, date - Date.now());
     }
     
     // Legacy method for backward compatibility
     static async fetchWithUserAgentLegacy(url: string): Promise<Response> {
-        return fetch(url, {
+        return this.limiter.run(() => fetch(url, {
             headers: {
                 "User-Agent": PROVIDER_CONFIG.USER_AGENT
             }
-        });
+        }));
     }
     
     static handleResponse(response: Response, context: string): boolean {
@@ -829,34 +2922,123 @@ class LevenshteinCalculator implements DistanceCalculator {
             matrix[i] = [i];
         }
         
-        for (let j = 0; j <= aLen; j++) {
-            matrix[0][j] = j;
+        for (let j = 0; j <= aLen; j++) {
+            matrix[0][j] = j;
+        }
+        
+        // Calculate distances
+        for (let i = 1; i <= bLen; i++) {
+            for (let j = 1; j <= aLen; j++) {
+                if (b.charAt(i - 1) === a.charAt(j - 1)) {
+                    matrix[i][j] = matrix[i - 1][j - 1];
+                } else {
+                    matrix[i][j] = Math.min(
+                        matrix[i - 1][j - 1] + 1, // substitution
+                        matrix[i][j - 1] + 1,     // insertion
+                        matrix[i - 1][j] + 1      // deletion
+                    );
+                }
+            }
+        }
+        
+        const distance = matrix[bLen][aLen];
+        return isValidStringDistance(distance) ? distance : 0 as StringDistance;
+    }
+    
+    // Calculate similarity score from distance
+    static calculateSimilarity(a: string, b: string, distance: StringDistance): number {
+        const maxLen = Math.max(a.length, b.length);
+        if (maxLen === 0) return 1;
+        return Math.max(0, (maxLen - distance) / maxLen);
+    }
+}
+
+// Word-order independent ratios in the style of fuzzywuzzy's token_sort and token_set
+class TokenRatioCalculator {
+    private static readonly distanceCalculator = new LevenshteinCalculator();
+    
+    static tokenSortRatio(a: string, b: string): SimilarityScore {
+        return this.ratio(this.tokenize(a).sort().join(' '), this.tokenize(b).sort().join(' '));
+    }
+    
+    static tokenSetRatio(a: string, b: string): SimilarityScore {
+        const tokensA = new Set(this.tokenize(a));
+        const tokensB = new Set(this.tokenize(b));
+        if (tokensA.size === 0 || tokensB.size === 0) return 0 as SimilarityScore;
+        
+        const intersection = Array.from(tokensA).filter(token => tokensB.has(token)).sort();
+        const onlyA = Array.from(tokensA).filter(token => !tokensB.has(token)).sort();
+        const onlyB = Array.from(tokensB).filter(token => !tokensA.has(token)).sort();
+        
+        const base = intersection.join(' ');
+        const combinedA = [base, ...onlyA].join(' ').trim();
+        const combinedB = [base, ...onlyB].join(' ').trim();
+        
+        // A title whose words all appear in the other one scores a full match
+        return Math.max(
+            base ? this.ratio(base, combinedA) : 0,
+            base ? this.ratio(base, combinedB) : 0,
+            this.ratio(combinedA, combinedB)
+        ) as SimilarityScore;
+    }
+    
+    private static tokenize(input: string): string[] {
+        return StringNormalizer.clean(StringNormalizer.normalize(input))
+            .split(/\s+/)
+            .filter(token => token.length > 0);
+    }
+    
+    private static ratio(a: string, b: string): SimilarityScore {
+        const distance = this.distanceCalculator.calculate(a, b);
+        return LevenshteinCalculator.calculateSimilarity(a, b, distance) as SimilarityScore;
+    }
+}
+
+// Jaro-Winkler similarity, forgiving for long titles that share a prefix
+class JaroWinklerCalculator {
+    private static readonly PREFIX_SCALE = 0.1;
+    private static readonly MAX_PREFIX = 4;
+    
+    static similarity(a: string, b: string): SimilarityScore {
+        if (a === b) return 1 as SimilarityScore;
+        if (a.length === 0 || b.length === 0) return 0 as SimilarityScore;
+        
+        const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+        const aMatches = new Array<boolean>(a.length).fill(false);
+        const bMatches = new Array<boolean>(b.length).fill(false);
+        
+        let matches = 0;
+        for (let i = 0; i < a.length; i++) {
+            const start = Math.max(0, i - matchWindow);
+            const end = Math.min(i + matchWindow + 1, b.length);
+            for (let j = start; j < end; j++) {
+                if (bMatches[j] || a[i] !== b[j]) continue;
+                aMatches[i] = true;
+                bMatches[j] = true;
+                matches++;
+                break;
+            }
+        }
+        
+        if (matches === 0) return 0 as SimilarityScore;
+        
+        let transpositions = 0;
+        let k = 0;
+        for (let i = 0; i < a.length; i++) {
+            if (!aMatches[i]) continue;
+            while (!bMatches[k]) k++;
+            if (a[i] !== b[k]) transpositions++;
+            k++;
         }
         
-        // Calculate distances
-        for (let i = 1; i <= bLen; i++) {
-            for (let j = 1; j <= aLen; j++) {
-                if (b.charAt(i - 1) === a.charAt(j - 1)) {
-                    matrix[i][j] = matrix[i - 1][j - 1];
-                } else {
-                    matrix[i][j] = Math.min(
-                        matrix[i - 1][j - 1] + 1, // substitution
-                        matrix[i][j - 1] + 1,     // insertion
-                        matrix[i - 1][j] + 1      // deletion
-                    );
-                }
-            }
+        const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+        
+        let prefix = 0;
+        while (prefix < Math.min(this.MAX_PREFIX, a.length, b.length) && a[prefix] === b[prefix]) {
+            prefix++;
         }
         
-        const distance = matrix[bLen][aLen];
-        return isValidStringDistance(distance) ? distance : 0 as StringDistance;
-    }
-    
-    // Calculate similarity score from distance
-    static calculateSimilarity(a: string, b: string, distance: StringDistance): number {
-        const maxLen = Math.max(a.length, b.length);
-        if (maxLen === 0) return 1;
-        return Math.max(0, (maxLen - distance) / maxLen);
+        return (jaro + prefix * this.PREFIX_SCALE * (1 - jaro)) as SimilarityScore;
     }
 }
 
@@ -865,25 +3047,44 @@ class FuzzyStringMatcher implements StringMatcher<FuzzyMatchConfig> {
     private readonly distanceCalculator = new LevenshteinCalculator();
     
     match(query: string, target: string, config: FuzzyMatchConfig = FUZZY_MATCH_CONFIG): FuzzyScore {
-        const strategies = [
-            () => this.exactMatch(query, target, config.weights.exact),
-            () => this.fuzzyMatch(query, target, config),
-            () => this.normalizedMatch(query, target, config.weights.normalized),
-            () => this.phoneticMatch(query, target, config.weights.phonetic)
+        return this.matchWithStrategy(query, target, config).score;
+    }
+    
+    // Same as match, but also reports which strategy produced the best score
+    matchWithStrategy(
+        query: string,
+        target: string,
+        config: FuzzyMatchConfig = FUZZY_MATCH_CONFIG
+    ): { score: FuzzyScore; strategy: MatchStrategy } {
+        const strategies: ReadonlyArray<[MatchStrategy, () => number]> = [
+            ['exact', () => this.exactMatch(query, target, config.weights.exact)],
+            ['fuzzy', () => this.fuzzyMatch(query, target, config)],
+            ['normalized', () => this.normalizedMatch(query, target, config.weights.normalized)],
+            ['phonetic', () => this.phoneticMatch(query, target, config.weights.phonetic)],
+            ['tokenSort', () => this.tokenMatch(TokenRatioCalculator.tokenSortRatio(query, target), config.minTokenSimilarity, config.weights.tokenSort)],
+            ['tokenSet', () => this.tokenMatch(TokenRatioCalculator.tokenSetRatio(query, target), config.minTokenSimilarity, config.weights.tokenSet)],
+            ['jaroWinkler', () => this.jaroWinklerMatch(query, target, config)]
         ];
         
         let bestScore = 0;
+        let bestStrategy: MatchStrategy = 'fuzzy';
         
-        for (const strategy of strategies) {
+        for (const [name, strategy] of strategies) {
+            if (!config.strategies.includes(name)) continue;
+            
             const score = strategy();
             if (score > bestScore) {
                 bestScore = score;
+                bestStrategy = name;
             }
             // Early exit for exact matches
             if (score === 100) break;
         }
         
-        return isFuzzyScore(bestScore) ? bestScore : 0 as FuzzyScore;
+        return {
+            score: isFuzzyScore(bestScore) ? bestScore as FuzzyScore : 0 as FuzzyScore,
+            strategy: bestStrategy
+        };
     }
     
     normalize(input: string): NormalizedString {
@@ -942,6 +3143,15 @@ class FuzzyStringMatcher implements StringMatcher<FuzzyMatchConfig> {
         return 0;
     }
     
+    private tokenMatch(similarity: number, minSimilarity: number, weight: number): number {
+        return similarity >= minSimilarity ? Math.round(similarity * weight) : 0;
+    }
+    
+    private jaroWinklerMatch(query: string, target: string, config: FuzzyMatchConfig): number {
+        const similarity = JaroWinklerCalculator.similarity(query.toLowerCase(), target.toLowerCase());
+        return similarity >= config.minJaroWinkler ? Math.round(similarity * config.weights.jaroWinkler) : 0;
+    }
+    
     private toPhonetic(input: string): string {
         return input
             .toLowerCase()
@@ -954,10 +3164,91 @@ class FuzzyStringMatcher implements StringMatcher<FuzzyMatchConfig> {
     }
 }
 
+// Measures title scoring against a labelled corpus, a pair counts as matched at the candidate threshold
+class MatchScoringEvaluator {
+    static evaluate(
+        pairs: readonly LabelledTitlePair[],
+        threshold: number = PERFORMANCE_CONFIG.MIN_CANDIDATE_SCORE
+    ): MatchScoringReport {
+        let truePositives = 0;
+        let falsePositives = 0;
+        let falseNegatives = 0;
+        let correct = 0;
+        const failures: Array<LabelledTitlePair & { score: number; strategy: MatchStrategy }> = [];
+        
+        for (const pair of pairs) {
+            const result = AnimePageExtractor.scoreTitle(pair.query, pair.title);
+            const predictedMatch = result.score >= threshold;
+            const expectedMatch = pair.expected === 'match';
+            
+            if (predictedMatch && expectedMatch) truePositives++;
+            if (predictedMatch && !expectedMatch) falsePositives++;
+            if (!predictedMatch && expectedMatch) falseNegatives++;
+            
+            if (predictedMatch === expectedMatch) {
+                correct++;
+            } else {
+                failures.push({ ...pair, score: result.score, strategy: result.strategy });
+            }
+        }
+        
+        const ratio = (numerator: number, denominator: number) =>
+            denominator === 0 ? 0 : Math.round(numerator / denominator * 1000) / 1000;
+        
+        return {
+            threshold,
+            total: pairs.length,
+            accuracy: ratio(correct, pairs.length),
+            precision: ratio(truePositives, truePositives + falsePositives),
+            recall: ratio(truePositives, truePositives + falseNegatives),
+            failures
+        };
+    }
+}
+
 // Main provider class with performance optimizations
 class Provider {
-    private readonly api = PROVIDER_CONFIG.API_BASE_URL;
     private readonly translator = new PortugueseTranslator();
+    private audioPreference: AudioPreference = 'any';
+    
+    constructor() {
+        this.applyUserConfig();
+    }
+    
+    // Settings from the extension's user config, a bad value is logged and the default kept
+    private applyUserConfig(): void {
+        // Comma separated, in order of preference, e.g. after the site announces a new domain
+        const mirrors = getUserPreference('mirrors');
+        if (mirrors) {
+            MirrorManager.configure(mirrors.split(","));
+            console.log("Mirrors: " + MirrorManager.list().join(", "));
+        }
+        
+        // Release groups to prefer when ranking smartSearch results, most preferred first
+        const releaseGroups = getUserPreference('releaseGroups');
+        if (releaseGroups) {
+            ReleaseRanker.setGroupPriority(releaseGroups.split(","));
+            console.log("Release group priority: " + ReleaseRanker.getGroupPriority().join(", "));
+        }
+        
+        // Filters smartSearch results by audio, "dub" keeps dubbed and dual-audio releases
+        const audioPreference = getUserPreference('audioPreference');
+        if (audioPreference === 'dub' || audioPreference === 'sub') {
+            this.audioPreference = audioPreference;
+            console.log("Audio preference: " + audioPreference);
+        } else if (audioPreference && audioPreference !== 'any') {
+            console.log("Invalid audioPreference user config: " + audioPreference);
+        }
+        
+        const pageOverrides = getUserPreference('pageOverrides');
+        if (pageOverrides) {
+            try {
+                console.log("Imported " + PageOverrides.importJSON(pageOverrides) + " page overrides from user config");
+            } catch (error) {
+                console.log("Invalid pageOverrides user config: " + (error as Error).message);
+            }
+        }
+    }
 
     // Returns the provider settings with const assertion for better type inference
     getSettings(): AnimeProviderSettings {
@@ -976,46 +3267,33 @@ class Provider {
         
         try {
             // Check cache first
-            const cacheKey = `search_${opts.query}`;
-            const cached = PerformanceCache.get<AnimeTorrent[]>(cacheKey);
+            const cached = PerformanceCache.get<AnimeTorrent[]>('search', opts.query);
             if (cached) {
                 console.log("Cache hit for search: " + opts.query);
                 PerformanceCache.recordSearchTime(Date.now() - startTime);
                 return cached;
             }
             
-            // Use the translator instance with type safety
-            const convertedQuery = this.translator.parse(opts.query);
-            console.log("Converted query: " + convertedQuery);
-            
-            const searchURL = `${this.api}/?s=${encodeURIComponent(convertedQuery)}` as SearchURL;
-            console.log("Search URL: " + searchURL);
-            
-            // Use the new Result-based HTTP client
-            const fetchResult = await HTTPClient.fetchWithUserAgent(searchURL);
-            
-            if (!fetchResult.success) {
-                console.log(`Search failed: ${fetchResult.error.message} (Status: ${fetchResult.error.status})`);
-                PerformanceCache.recordSearchTime(Date.now() - startTime);
-                return [];
-            }
-
-            const animePageURL = AnimePageExtractor.extractPageURL(fetchResult.data, convertedQuery);
+            // Manual overrides win over any fuzzy matching
+            const overridePages = PageOverrides.get(opts.media?.id);
+            const candidates = overridePages.length > 0
+                ? PageOverrides.toCandidates(overridePages)
+                : await this.findCandidatesForMedia(opts.query, opts.media);
             
-            if (!animePageURL) {
+            if (candidates.length === 0) {
                 console.log("No anime page found for: " + opts.query);
                 PerformanceCache.recordSearchTime(Date.now() - startTime);
                 return [];
             }
 
-            console.log("Found anime page: " + animePageURL);
+            console.log(`Found ${candidates.length} anime page(s): ` + candidates.map(c => c.url).join(", "));
             
-            // Fetch torrents with improved error handling
-            const results = await this.fetchTorrentsFromAnimePage(animePageURL, opts.media);
+            // Fetch torrents with improved error handling, manual overrides are trusted as they are
+            const results = await this.fetchTorrentsFromCandidates(candidates, opts.media, overridePages.length === 0);
             
             // Cache successful results
             if (results.length > 0) {
-                PerformanceCache.set(cacheKey, results);
+                PerformanceCache.set('search', opts.query, results);
             }
             
             PerformanceCache.recordSearchTime(Date.now() - startTime);
@@ -1028,6 +3306,141 @@ class Provider {
         }
     }
 
+    // Tries every planned query until one gives a confident match, and remembers the winner per media.
+    // A traced run (attempts given) only reads the cache and leaves the metrics alone.
+    private async findCandidatesForMedia(
+        query: string,
+        media: Media | undefined,
+        attempts?: SearchAttempt[]
+    ): Promise<ScoreMatch[]> {
+        const traced = attempts !== undefined;
+        const planKey = media ? String(media.id) : "";
+        const rememberedQuery = !planKey ? null
+            : traced ? PerformanceCache.peek<string>('queryPlan', planKey)
+            : PerformanceCache.get<string>('queryPlan', planKey);
+        
+        // Use the translator instance with type safety, the planner only adds variants around it
+        const convertedQuery = this.translator.parse(query);
+        const queries = QueryPlanner.plan(convertedQuery, media, rememberedQuery);
+        console.log("Planned queries: " + queries.join(" | "));
+        
+        let bestCandidates: ScoreMatch[] = [];
+        // Retries, result pages and planned queries multiply, so the whole search shares one request budget
+        const budget = new RequestBudget(PERFORMANCE_CONFIG.MAX_SEARCH_REQUESTS);
+        
+        for (const plannedQuery of queries) {
+            if (budget.exhausted) {
+                console.log("Search request budget exhausted, stopping before query: " + plannedQuery);
+                break;
+            }
+            
+            const attempt = attempts ? this.createSearchAttempt(plannedQuery) : undefined;
+            if (attempt) attempts!.push(attempt);
+            
+            const candidates = await this.findCandidatePages(plannedQuery, budget, attempt);
+            if (candidates.length === 0) continue;
+            
+            if (candidates[0].score >= PERFORMANCE_CONFIG.CONFIDENT_MATCH_SCORE) {
+                console.log(`Confident match for query "${plannedQuery}": ${candidates[0].title}`);
+                if (planKey && !traced) {
+                    PerformanceCache.set('queryPlan', planKey, plannedQuery);
+                }
+                return candidates;
+            }
+            
+            if (bestCandidates.length === 0 || candidates[0].score > bestCandidates[0].score) {
+                bestCandidates = candidates;
+            }
+        }
+        
+        return bestCandidates;
+    }
+
+    // Walks the search result pages until a confident match shows up or the page limit is reached.
+    // A traced attempt always refetches, cached candidates carry no skip details, and writes no cache or metrics.
+    private async findCandidatePages(query: string, budget: RequestBudget, attempt?: SearchAttempt): Promise<ScoreMatch[]> {
+        const cached = attempt ? null : PerformanceCache.get<ScoreMatch[]>('pageExtract', query);
+        if (cached) {
+            console.log("Cache hit for page extraction: " + query);
+            return cached;
+        }
+        
+        const potentialLinks: ScoreMatch[] = [];
+        // Result titles are scored against every equivalent spelling, e.g. "Overlord IV" also as "Overlord 4ª temporada"
+        const variants = Array.from(new Set([query, ...PortugueseTranslator.generateVariants(query)]));
+        
+        for (let page = 1; page <= PERFORMANCE_CONFIG.MAX_SEARCH_PAGES && !budget.exhausted; page++) {
+            const searchURL = this.buildSearchURL(query, page);
+            console.log("Search URL: " + searchURL);
+            
+            // Use the new Result-based HTTP client, unreachable mirrors fail over to the next one
+            const fetchResult = attempt
+                ? await MirrorManager.fetch(searchURL, { budget, recordMetrics: false })
+                : await MirrorManager.fetch(searchURL, { budget, stage: 'searchFetch' });
+            
+            // WordPress answers 404 past the last results page
+            if (!fetchResult.success) {
+                console.log(`Search failed: ${fetchResult.error.message} (Status: ${fetchResult.error.status}, Kind: ${fetchResult.error.kind})`);
+                break;
+            }
+            
+            const seenUrls = new Set(potentialLinks.map(link => link.url));
+            const extractionStart = Date.now();
+            const { matches, skipped, resultCount } = AnimePageExtractor.scoreResultPage(fetchResult.data, query, seenUrls, variants);
+            potentialLinks.push(...matches);
+            
+            if (!attempt) {
+                PerformanceCache.recordStage('pageExtraction', Date.now() - extractionStart);
+                PerformanceCache.incrementFuzzyCount(matches.length + skipped.filter(skip => skip.reason === 'no_score').length);
+            }
+            
+            if (attempt) {
+                attempt.pagesFetched = page;
+                attempt.candidates.push(...matches);
+                attempt.skipped.push(...skipped);
+            }
+            
+            // Early exit for very high scores
+            if (matches.some(match => match.score >= PERFORMANCE_CONFIG.EARLY_EXIT_SCORE)) {
+                console.log(`Early exit triggered for high-scoring match on page ${page}`);
+                break;
+            }
+            
+            if (resultCount === 0 || !fetchResult.data.includes(`/page/${page + 1}/`)) {
+                console.log(`No more search result pages after page ${page}`);
+                break;
+            }
+        }
+        
+        const result = AnimePageExtractor.rankCandidates(potentialLinks);
+        if (result.length > 0 && !attempt) {
+            PerformanceCache.set('pageExtract', query, result);
+        }
+        
+        if (attempt) {
+            attempt.selected = result;
+            for (const link of potentialLinks) {
+                if (result.some(selected => selected.url === link.url)) continue;
+                attempt.skipped.push({
+                    url: link.url,
+                    title: link.title,
+                    reason: link.score < PERFORMANCE_CONFIG.MIN_CANDIDATE_SCORE ? 'below_threshold' : 'over_candidate_limit',
+                    score: link.score
+                });
+            }
+        }
+        return result;
+    }
+    
+    private createSearchAttempt(query: string): SearchAttempt {
+        return { query, pagesFetched: 0, candidates: [], skipped: [], selected: [] };
+    }
+    
+    private buildSearchURL(query: string, page: number): SearchURL {
+        const pagePath = page > 1 ? `/page/${page}` : "";
+        return `${MirrorManager.active}${pagePath}/?s=${encodeURIComponent(query)}` as SearchURL;
+    }
+
     // Returns the search results depending on the search options.
     async smartSearch(opts: AnimeSmartSearchOptions): Promise<AnimeTorrent[]> {
         try {
@@ -1061,13 +3474,14 @@ class Provider {
         
         const filters: FilterPredicate[] = [];
         
-        // Episode number filter with type safety
+        // Content kind filter, drops movies and OVAs from series searches and the other way around
+        if (opts.media?.format) {
+            filters.push(this.createContentKindFilter(results, opts.media.format));
+        }
+        
+        // Episode number filter, aware of which season each page covers
         if (opts.episodeNumber && opts.episodeNumber > 0) {
-            filters.push((t: any) => 
-                t.episodeNumber === opts.episodeNumber || 
-                t.isBatch || 
-                t.episodeNumber === -1
-            );
+            filters.push(this.createEpisodeFilter(results, opts.media, opts.episodeNumber));
         }
         
         // Resolution filter with template literal type checking
@@ -1083,11 +3497,96 @@ class Provider {
             filters.push((t: any) => t.isBatch);
         }
         
+        // Audio filter, dub-preferring users only get dubbed or dual-audio releases
+        const audioPreference = this.audioPreference;
+        if (audioPreference !== 'any') {
+            filters.push((t: DarkMahouTorrent) => TorrentParser.matchesAudioPreference(t.attributes, audioPreference));
+        }
+        
         // Apply all filters using functional composition
-        return filters.reduce(
+        const filtered = filters.reduce(
             (filteredResults, filter) => filteredResults.filter(filter),
             results
         );
+        
+        // Drop superseded versions, then rank what is left and flag the best release per episode
+        return ReleaseRanker.rank(TorrentParser.supersedeOldVersions(filtered as DarkMahouTorrent[]), opts);
+    }
+
+    // Standalone movie and OVA pages often name their torrents like regular episodes,
+    // so unmarked torrents are kept when nothing on the pages carries the expected kind
+    private createContentKindFilter(
+        results: DarkMahouTorrent[],
+        format: string
+    ): (torrent: DarkMahouTorrent) => boolean {
+        const allowed = MEDIA_FORMAT_CONTENT_KINDS[format.toUpperCase()];
+        if (!allowed) {
+            return () => true;
+        }
+        
+        const hasExpectedKind = results.some(t => t.contentKind && t.contentKind !== 'batch' && allowed.includes(t.contentKind));
+        const kinds: readonly ContentKind[] = hasExpectedKind ? allowed : [...allowed, 'episode'];
+        console.log(`Content kinds kept for ${format}: ${kinds.join(", ")}`);
+        
+        return (t: DarkMahouTorrent) => kinds.includes(t.contentKind ?? 'episode');
+    }
+
+    // Works out which pages belong to the requested season and matches both relative and absolute numbering
+    private createEpisodeFilter(
+        results: DarkMahouTorrent[],
+        media: Media,
+        episodeNumber: number
+    ): (torrent: DarkMahouTorrent) => boolean {
+        const requestedSeason = SeasonResolver.seasonFromMedia(media);
+        const absoluteEpisode = SeasonResolver.toAbsoluteEpisode(episodeNumber, media);
+        const mediaKinds = MEDIA_FORMAT_CONTENT_KINDS[(media.format ?? "").toUpperCase()] ?? [];
+        
+        const pageEpisodes = new Map<string, { title: string; episodes: number[] }>();
+        for (const torrent of results) {
+            const pageURL = torrent.sourcePage?.url ?? torrent.link;
+            const entry = pageEpisodes.get(pageURL) ?? { title: torrent.sourcePage?.title ?? "", episodes: [] };
+            if (torrent.episodeNumber && torrent.episodeNumber > 0) {
+                entry.episodes.push(torrent.episodeNumber);
+            }
+            pageEpisodes.set(pageURL, entry);
+        }
+        
+        const pages = new Map<string, PageSeasonInfo>();
+        pageEpisodes.forEach((entry, pageURL) => {
+            const info = SeasonResolver.describePage(entry.title, entry.episodes, media, requestedSeason);
+            console.log(`Page ${pageURL} - Season: ${info.season ?? "unmarked"}, matches: ${info.matchesMedia}, absolute: ${info.absoluteNumbering}`);
+            pages.set(pageURL, info);
+        });
+        
+        // When no page is marked for the requested season every page stays in play
+        const hasSeasonPage = Array.from(pages.values()).some(info => info.matchesMedia);
+        
+        return (t: DarkMahouTorrent) => {
+            const page = pages.get(t.sourcePage?.url ?? t.link);
+            if (hasSeasonPage && page && !page.matchesMedia && !page.absoluteNumbering) {
+                return false;
+            }
+            
+            if (t.isBatch) {
+                const episodes = absoluteEpisode !== null ? [episodeNumber, absoluteEpisode] : [episodeNumber];
+                return TorrentParser.batchCoversEpisode(t.batch ?? null, requestedSeason, episodes);
+            }
+            
+            // An unnumbered episode may still be the requested one, a movie, OVA or special only when the media is one
+            if (t.episodeNumber === -1) {
+                const kind = t.contentKind ?? 'episode';
+                return kind === 'episode' || mediaKinds.includes(kind);
+            }
+            
+            if (page?.absoluteNumbering && absoluteEpisode !== null) {
+                return t.episodeNumber === absoluteEpisode;
+            }
+            // Next to a page for the requested season, a low number on the umbrella page is an earlier season's episode
+            if (page?.absoluteNumbering && hasSeasonPage && requestedSeason > 1) {
+                return false;
+            }
+            return t.episodeNumber === episodeNumber;
+        };
     }
 
     // Scrapes the torrent page to get the info hash.
@@ -1115,11 +3614,39 @@ class Provider {
             }
         }
         
+        // Missing or malformed magnet, read the hash from the .torrent file instead
+        if (torrent.downloadUrl) {
+            const infoHash = await this.fetchTorrentFileInfoHash(torrent.downloadUrl);
+            if (infoHash) {
+                return infoHash;
+            }
+        }
+        
         // No valid torrent data found - return empty string instead of mock data
         console.log("No valid info hash found for torrent: " + (torrent.name || "Unknown"));
         return "";
     }
 
+    // Downloads a .torrent file and reads its info hash, empty when the file is unreachable or not a torrent
+    private async fetchTorrentFileInfoHash(downloadUrl: string): Promise<string> {
+        console.log("Trying to read info hash from .torrent file: " + downloadUrl);
+        const fileResult = await HTTPClient.fetchWithUserAgent(
+            downloadUrl,
+            async response => new Uint8Array(await response.arrayBuffer())
+        );
+        
+        if (!fileResult.success) {
+            console.log(`Failed to download .torrent file: ${fileResult.error.message} (Status: ${fileResult.error.status}, Kind: ${fileResult.error.kind})`);
+            return "";
+        }
+        
+        const infoHash = TorrentFileParser.infoHash(fileResult.data);
+        if (infoHash) {
+            console.log("Read info hash from .torrent file: " + infoHash);
+        }
+        return infoHash;
+    }
+
     // Scrapes the torrent page to get the magnet link.
     async getTorrentMagnetLink(torrent: AnimeTorrent): Promise<string> {
         console.log("Getting magnet link for torrent: " + (torrent.name || "Unknown"));
@@ -1135,18 +3662,66 @@ class Provider {
             return torrent.magnetLink;
         }
         
+        // .torrent links without a magnet are only downloaded once the user picks them
+        if (torrent.downloadUrl) {
+            const infoHash = await this.getTorrentInfoHash(torrent);
+            if (infoHash) {
+                return `magnet:?xt=urn:btih:${infoHash}&dn=${encodeURIComponent(torrent.name)}`;
+            }
+        }
+        
         // No valid magnet link found - return empty string instead of mock data
         console.log("No valid magnet link found for torrent: " + (torrent.name || "Unknown"));
         return "";
     }
 
-    // Returns the latest torrents (required even for "special" type)
+    // Returns the latest torrents from the release feed, falling back to the homepage listing
     async getLatest(): Promise<AnimeTorrent[]> {
-        // DarkMahou doesn't have a "latest" page, return empty array
-        return [];
+        const startTime = Date.now();
+        console.log("Fetching latest releases");
+        
+        try {
+            const cached = PerformanceCache.get<AnimeTorrent[]>('latest', 'releases');
+            if (cached) {
+                console.log("Cache hit for latest releases");
+                PerformanceCache.recordSearchTime(Date.now() - startTime);
+                return cached;
+            }
+            
+            const releases = await this.fetchLatestReleases();
+            console.log("Found " + releases.length + " latest releases");
+            
+            // Releases without embedded magnets cost a page fetch each, so they share the page fetch limit
+            const torrentLists = await mapWithConcurrency(
+                releases,
+                PERFORMANCE_CONFIG.MAX_CONCURRENT_PAGE_FETCHES,
+                release => this.fetchTorrentsFromRelease(release)
+            );
+            
+            // Deduplicate across releases, an anime page can show up more than once in the feed
+            const seenInfoHashes = new Set<string>();
+            const results: AnimeTorrent[] = [];
+            for (const torrent of torrentLists.flat()) {
+                if (torrent.infoHash && seenInfoHashes.has(torrent.infoHash)) continue;
+                if (torrent.infoHash) seenInfoHashes.add(torrent.infoHash);
+                results.push(torrent);
+            }
+            
+            if (results.length > 0) {
+                PerformanceCache.set('latest', 'releases', results);
+            }
+            
+            PerformanceCache.recordSearchTime(Date.now() - startTime);
+            return results;
+            
+        } catch (error) {
+            console.log("Error in getLatest: " + (error as Error).message);
+            PerformanceCache.recordSearchTime(Date.now() - startTime);
+            return [];
+        }
     }
     
-    // Performance monitoring method for debugging
+    // Performance monitoring method for debugging, the returned object is plain JSON
     getPerformanceMetrics(): ReadonlyPerformanceMetrics {
         const metrics = PerformanceCache.getMetrics();
         console.log("Performance Metrics:", {
@@ -1155,25 +3730,205 @@ class Provider {
             cacheHits: metrics.cacheHits,
             cacheMisses: metrics.cacheMisses,
             fuzzyMatchCount: metrics.fuzzyMatchCount,
-            cacheEfficiency: metrics.cacheHits / (metrics.cacheHits + metrics.cacheMisses) * 100 + "%"
+            requestsStarted: metrics.requestsStarted,
+            requestsCoalesced: metrics.requestsCoalesced,
+            inFlightRequests: RequestCoalescer.size,
+            cacheEfficiency: (metrics.cacheEfficiency * 100).toFixed(1) + "%"
         });
+        for (const [stage, summary] of Object.entries(metrics.stages)) {
+            console.log(`  ${stage}: ${summary.count} calls, p50 ${summary.p50}ms, p95 ${summary.p95}ms, max ${summary.max}ms`);
+        }
+        for (const [host, stats] of Object.entries(metrics.hosts)) {
+            console.log(`  ${host}: ${stats.requests} requests, statuses ${JSON.stringify(stats.statuses)}`);
+        }
         return metrics;
     }
+    
+    resetPerformanceMetrics(): void {
+        PerformanceCache.resetMetrics();
+        console.log("Performance metrics reset");
+    }
+    
+    // Runs the page matching pipeline for a query and returns every decision it made, for debugging mismatches
+    async explainSearch(query: string, media?: Media): Promise<SearchExplanation> {
+        const translatedQuery = this.translator.parse(query);
+        const cache = {
+            search: PerformanceCache.peek('search', query) !== null ? 'hit' : 'miss',
+            pageExtract: PerformanceCache.peek('pageExtract', translatedQuery) !== null ? 'hit' : 'miss'
+        } as const;
+        
+        const overridePages = PageOverrides.get(media?.id);
+        const attempts: SearchAttempt[] = [];
+        
+        const finalCandidates = overridePages.length > 0
+            ? PageOverrides.toCandidates(overridePages)
+            : await this.findCandidatesForMedia(query, media, attempts);
+        
+        return {
+            query,
+            translatedQuery,
+            cache,
+            overridePages,
+            attempts,
+            finalCandidates,
+            finalPick: finalCandidates[0] ?? null
+        };
+    }
+    
+    // Scores a labelled corpus (see fuzzy-match-corpus.json) to catch matching regressions
+    evaluateMatchScoring(pairs: LabelledTitlePair[], threshold?: number): MatchScoringReport {
+        const report = MatchScoringEvaluator.evaluate(pairs, threshold);
+        console.log(`Match scoring: accuracy ${report.accuracy}, precision ${report.precision}, recall ${report.recall} over ${report.total} pairs`);
+        return report;
+    }
+    
+    getActiveMirror(): string {
+        return MirrorManager.active;
+    }
+    
+    // Cache persistence hooks, the host can store the snapshot between extension reloads
+    exportCacheSnapshot(): CacheSnapshot {
+        return PerformanceCache.exportSnapshot();
+    }
+    
+    importCacheSnapshot(snapshot: CacheSnapshot): number {
+        const imported = PerformanceCache.importSnapshot(snapshot);
+        console.log("Imported " + imported + " cache entries");
+        return imported;
+    }
+    
+    // Page override sharing, imports drop cached search results so they apply right away
+    importPageOverrides(json: string | Record<string, string | string[]>): number {
+        const imported = PageOverrides.importJSON(json);
+        PerformanceCache.invalidateByPrefix("search:");
+        console.log("Imported " + imported + " page overrides");
+        return imported;
+    }
+    
+    exportPageOverrides(): string {
+        return PageOverrides.exportJSON();
+    }
+    
+    // Clears cached data by key prefix, e.g. "torrents:https://darkmahou.io/dandadan" for a single show
+    invalidateCache(prefix: string): number {
+        const removed = PerformanceCache.invalidateByPrefix(prefix);
+        console.log("Invalidated " + removed + " cache entries for prefix: " + prefix);
+        return removed;
+    }
 
 
 
+    // Fetch every candidate page with bounded concurrency and merge their torrents, best page first
+    // Pages whose metadata contradicts the media are dropped or demoted before their torrents are merged
+    private async fetchTorrentsFromCandidates(
+        candidates: ScoreMatch[],
+        media: Media,
+        validate: boolean = true
+    ): Promise<DarkMahouTorrent[]> {
+        const pages = await mapWithConcurrency(
+            candidates,
+            PERFORMANCE_CONFIG.MAX_CONCURRENT_PAGE_FETCHES,
+            async candidate => {
+                const page = await this.fetchAnimePage(candidate.url);
+                const validation = validate && media && page.metadata
+                    ? PageMetadataValidator.validate(page.metadata, media)
+                    : undefined;
+                if (validation?.contradictions.length) {
+                    console.log(`Page ${candidate.url} contradicts the media (${validation.contradictions.join(", ")}), penalty ${validation.penalty}`);
+                }
+                return { candidate: { ...candidate, validation }, torrents: page.torrents };
+            }
+        );
+        
+        const ordered = PageMetadataValidator.demote(pages.map(page => page.candidate))
+            .map(candidate => pages.find(page => page.candidate === candidate)!);
+        
+        const seenInfoHashes = new Set<string>();
+        const results: DarkMahouTorrent[] = [];
+        
+        ordered.forEach(({ candidate, torrents }) => {
+            for (const torrent of torrents) {
+                if (torrent.infoHash && seenInfoHashes.has(torrent.infoHash)) continue;
+                if (torrent.infoHash) seenInfoHashes.add(torrent.infoHash);
+                results.push({ ...torrent, sourcePage: { url: candidate.url, title: candidate.title } });
+            }
+        });
+        
+        return results;
+    }
+
+    // Read the release feed first, the homepage listing is only used when the feed is unavailable
+    private async fetchLatestReleases(): Promise<LatestRelease[]> {
+        const feedResult = await MirrorManager.fetch(PROVIDER_CONFIG.FEED_PATH);
+        if (feedResult.success) {
+            const releases = LatestReleasesParser.parseFeed(feedResult.data);
+            if (releases.length > 0) {
+                return releases;
+            }
+        } else {
+            console.log(`Feed request failed: ${feedResult.error.message} (Status: ${feedResult.error.status}, Kind: ${feedResult.error.kind})`);
+        }
+        
+        console.log("Falling back to homepage release listing");
+        const homeResult = await MirrorManager.fetch("/");
+        if (!homeResult.success) {
+            console.log(`Homepage request failed: ${homeResult.error.message} (Status: ${homeResult.error.status}, Kind: ${homeResult.error.kind})`);
+            return [];
+        }
+        
+        return LatestReleasesParser.parseHomepage(homeResult.data);
+    }
+    
+    // Feed items usually embed the magnets, otherwise the release page itself is scraped
+    private async fetchTorrentsFromRelease(release: LatestRelease): Promise<AnimeTorrent[]> {
+        if (release.content && release.content.includes("magnet:?")) {
+            const torrents = this.parseWithOptimizedRegex(release.content, release.url);
+            return release.date
+                ? torrents.map(torrent => ({ ...torrent, date: release.date! }))
+                : torrents;
+        }
+        
+        // The scraped page lists every episode of the show, only the released one belongs in the latest view
+        const torrents = await this.fetchTorrentsFromAnimePage(release.url);
+        const released = this.releasedEpisode(release, torrents);
+        return torrents.filter(torrent => torrent.episodeNumber === released);
+    }
+    
+    // The episode named in the release title, or the newest episode on the page when the title has none
+    private releasedEpisode(release: LatestRelease, torrents: readonly AnimeTorrent[]): number {
+        const fromTitle = TorrentParser.extractEpisode(release.title, release.title);
+        if (fromTitle.episodeNumber !== -1 && fromTitle.confidence !== 'low') {
+            return fromTitle.episodeNumber;
+        }
+        
+        return torrents.reduce((newest, torrent) => Math.max(newest, torrent.episodeNumber ?? -1), -1);
+    }
+
     // Fetch torrents from anime page with improved error handling
-    private async fetchTorrentsFromAnimePage(pageURL: string, _media: Media): Promise<AnimeTorrent[]> {
+    private async fetchTorrentsFromAnimePage(pageURL: string): Promise<AnimeTorrent[]> {
+        return (await this.fetchAnimePage(pageURL)).torrents;
+    }
+    
+    // One request gives both the torrents and the info block used to validate the match,
+    // concurrent searches landing on the same page share the fetch and the parse
+    private fetchAnimePage(pageURL: string): Promise<{ torrents: AnimeTorrent[]; metadata: AnimePageMetadata | null }> {
+        return RequestCoalescer.run("page:" + pageURL, () => this.fetchAndParseAnimePage(pageURL));
+    }
+    
+    private async fetchAndParseAnimePage(pageURL: string): Promise<{ torrents: AnimeTorrent[]; metadata: AnimePageMetadata | null }> {
         console.log("Fetching torrents from: " + pageURL);
         
-        const fetchResult = await HTTPClient.fetchWithUserAgent(pageURL);
+        const fetchResult = await MirrorManager.fetch(pageURL, { stage: 'torrentPageFetch' });
         
         if (!fetchResult.success) {
-            console.log(`Failed to fetch anime page: ${fetchResult.error.message} (Status: ${fetchResult.error.status})`);
-            return [];
+            console.log(`Failed to fetch anime page: ${fetchResult.error.message} (Status: ${fetchResult.error.status}, Kind: ${fetchResult.error.kind})`);
+            return { torrents: [], metadata: null };
         }
 
-        return this.parseTorrentsFromHTML(fetchResult.data, pageURL);
+        return {
+            torrents: this.parseTorrentsFromHTML(fetchResult.data, pageURL),
+            metadata: AnimePageMetadataParser.parse(fetchResult.data)
+        };
     }
 
     // Optimized torrent parsing using only regex (LoadDoc removed due to consistent failures)
@@ -1184,8 +3939,7 @@ class Provider {
             console.log("Parsing torrents from HTML using optimized regex...");
             
             // Check cache first
-            const cacheKey = `torrents_${pageURL}`;
-            const cached = PerformanceCache.get<AnimeTorrent[]>(cacheKey);
+            const cached = PerformanceCache.get<AnimeTorrent[]>('torrents', pageURL);
             if (cached) {
                 console.log("Cache hit for torrents parsing: " + pageURL);
                 PerformanceCache.recordParseTime(Date.now() - startTime);
@@ -1193,13 +3947,13 @@ class Provider {
             }
             
             const results = this.parseWithOptimizedRegex(html, pageURL);
+            PerformanceCache.recordParseTime(Date.now() - startTime);
             
             // Cache successful results
             if (results.length > 0) {
-                PerformanceCache.set(cacheKey, results);
+                PerformanceCache.set('torrents', pageURL, results);
             }
             
-            PerformanceCache.recordParseTime(Date.now() - startTime);
             return results;
             
         } catch (error) {
@@ -1215,18 +3969,21 @@ class Provider {
         const results: AnimeTorrent[] = [];
         
         try {
-            console.log("Using optimized regex to find magnet links...");
+            console.log("Using optimized regex to find magnet blocks...");
             
-            const magnetMatches = html.match(REGEX_PATTERNS.MAGNET_LINK);
+            const blocks = MagnetBlockParser.parseWithDownloads(html);
             
-            if (magnetMatches && magnetMatches.length > 0) {
-                console.log("Found " + magnetMatches.length + " magnet links in page");
+            if (blocks.length > 0) {
+                console.log("Found " + blocks.length + " magnet and .torrent links in page");
+                
+                const pageDate = this.extractPostDate(html);
                 
                 // Process magnet links with deduplication
                 const seenInfoHashes = new Set<string>();
                 
-                for (let i = 0; i < magnetMatches.length; i++) {
-                    const magnetLink = magnetMatches[i];
+                for (let i = 0; i < blocks.length; i++) {
+                    const block = blocks[i];
+                    const magnetLink = block.magnetLink;
                     
                     // Skip duplicates based on info hash
                     const infoHash = TorrentParser.extractInfoHash(magnetLink);
@@ -1235,14 +3992,22 @@ class Provider {
                     }
                     if (infoHash) seenInfoHashes.add(infoHash);
                     
-                    const torrentName = this.extractTorrentNameFromMagnet(magnetLink, i + 1);
+                    const torrentName = this.extractTorrentNameFromMagnet(magnetLink, block, i + 1);
+                    const size = SizeParser.fromMagnet(magnetLink) ?? MagnetBlockParser.extractSize(block);
                     
                     results.push(this.createAnimeTorrent(
                         torrentName,
                         magnetLink,
                         pageURL,
-                        TorrentParser.parseResolution(torrentName),
-                        ""
+                        TorrentParser.parseResolution(torrentName) || TorrentParser.parseQualityLabel(block.qualityLabel),
+                        block.episodeTitle,
+                        {
+                            size,
+                            date: pageDate,
+                            qualityLabel: block.qualityLabel,
+                            audioLabel: block.audioLabel,
+                            downloadUrl: block.downloadUrl
+                        }
                     ));
                 }
             }
@@ -1256,17 +4021,38 @@ class Provider {
         }
     }
     
-    // Extract torrent name from magnet link
-    private extractTorrentNameFromMagnet(magnetLink: string, fallbackNumber: number): string {
+    // Post date from the article metadata, WordPress themes expose at least one of these
+    private extractPostDate(html: string): string | null {
+        const raw = html.match(REGEX_PATTERNS.PUBLISHED_TIME)?.[1] ?? html.match(REGEX_PATTERNS.TIME_DATETIME)?.[1];
+        if (!raw) return null;
+        
+        const time = Date.parse(raw);
+        return isNaN(time) ? null : new Date(time).toISOString();
+    }
+    
+    // Extract torrent name from magnet link, falling back to the page labels around it
+    private extractTorrentNameFromMagnet(magnetLink: string, block: MagnetBlock, fallbackNumber: number): string {
         const dnMatch = magnetLink.match(/&dn=([^&]+)/);
         if (dnMatch) {
             try {
-                return decodeURIComponent(dnMatch[1]);
+                return decodeURIComponent(dnMatch[1].replace(/\+/g, ' '));
             } catch (e) {
                 return dnMatch[1];
             }
         }
-        return "Episode " + fallbackNumber;
+        
+        // .torrent files are usually named after the release
+        const fileName = block.downloadUrl.match(/\/([^\/?#]+)\.torrent(?:[?#]|$)/i)?.[1];
+        if (fileName && !/^\d+$/.test(fileName)) {
+            try {
+                return decodeURIComponent(fileName.replace(/\+/g, ' '));
+            } catch (e) {
+                return fileName;
+            }
+        }
+        
+        const label = `${block.episodeTitle} ${block.qualityLabel}`.trim();
+        return label || "Episode " + fallbackNumber;
     }
 
     // Create AnimeTorrent object with improved type safety and validation
@@ -1275,36 +4061,52 @@ class Provider {
         magnetLink: string, 
         pageURL: string, 
         resolution: string, 
-        episodeTitle: string
+        episodeTitle: string,
+        metadata: TorrentMetadata = { size: null, date: null }
     ) {
         // Use type-safe parsing methods
         const infoHash = TorrentParser.extractInfoHash(magnetLink);
         const parsedResolution = TorrentParser.parseResolution(name) || resolution;
-        const isBatch = TorrentParser.isBatchTorrent(name, episodeTitle);
-        const episodeNumber = TorrentParser.extractEpisodeNumber(name, episodeTitle);
+        const batch = TorrentParser.parseBatch(name, episodeTitle);
+        const contentKind = TorrentParser.parseContentKind(name, episodeTitle, pageURL);
+        // A movie's "2" is not episode 2, only regular episodes carry a number
+        const episodeExtraction: EpisodeExtractionResult = contentKind === 'episode'
+            ? TorrentParser.extractEpisode(name, episodeTitle)
+            : { episodeNumber: -1, confidence: 'high', strategy: 'none' };
+        const episodeNumber = episodeExtraction.episodeNumber;
         const releaseGroup = TorrentParser.extractReleaseGroup(name);
+        const attributes = TorrentParser.parseAttributes(
+            name,
+            `${episodeTitle} ${metadata.audioLabel ?? ""}`,
+            metadata.qualityLabel ?? ""
+        );
         
         console.log(`Creating torrent: ${name} - InfoHash: ${infoHash} - MagnetLink length: ${magnetLink.length}`);
         
         // Use object shorthand and better typing - return type inferred from external AnimeTorrent interface
         return {
             name,
-            date: new Date().toISOString(),
-            size: 0,
-            formattedSize: "N/A" as const,
-            seeders: 0,
-            leechers: 0,
-            downloadCount: 0,
+            date: metadata.date ?? PROVIDER_CONFIG.UNKNOWN_DATE,
+            size: metadata.size ?? 0,
+            formattedSize: SizeParser.format(metadata.size),
+            seeders: PROVIDER_CONFIG.UNKNOWN_COUNT,
+            leechers: PROVIDER_CONFIG.UNKNOWN_COUNT,
+            downloadCount: PROVIDER_CONFIG.UNKNOWN_COUNT,
             link: pageURL,
-            downloadUrl: "" as const,
+            downloadUrl: metadata.downloadUrl ?? "",
             magnetLink,
             infoHash: infoHash as string, // Cast back to string for interface compatibility
             resolution: parsedResolution,
-            isBatch,
+            isBatch: batch !== null,
+            batch,
+            contentKind,
             episodeNumber: episodeNumber as number, // Cast back to number for interface compatibility
             releaseGroup,
-            isBestRelease: false as const,
-            confirmed: true as const
+            attributes,
+            isBestRelease: false,
+            episodeExtraction,
+            // Guessed episode numbers are shown as unconfirmed in Seanime
+            confirmed: episodeExtraction.confidence !== 'low'
         };
     }
 
@@ -0,0 +1,50 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider, plain } = require("./harness");
+
+const PAGE_URL = "https://darkmahou.io/show/";
+
+const magnet = (hash, name) => `magnet:?xt=urn:btih:${hash.repeat(40)}&amp;dn=${encodeURIComponent(name)}`;
+
+test("ranges, season packs and complete series are read as batches", () => {
+    const { TorrentParser } = loadProvider();
+    const batch = (name, episodeTitle = "") => plain(TorrentParser.parseBatch(name, episodeTitle));
+
+    assert.deepEqual(batch("[Group] Show 01~12 (1080p)"), { startEpisode: 1, endEpisode: 12, season: null, completeSeries: false });
+    assert.deepEqual(batch("[Group] Show S02 01-24 (1080p)"), { startEpisode: 1, endEpisode: 24, season: 2, completeSeries: false });
+    assert.deepEqual(batch("[Group] Show Completo (1080p)"), { startEpisode: null, endEpisode: null, season: null, completeSeries: true });
+    assert.deepEqual(batch("[Group] Show S2 (1080p)"), { startEpisode: null, endEpisode: null, season: 2, completeSeries: false });
+    assert.deepEqual(batch("[Group] Show (1080p)", "Episódios 01 ao 12"), { startEpisode: 1, endEpisode: 12, season: null, completeSeries: false });
+});
+
+test("single episodes are not batches", () => {
+    const { TorrentParser } = loadProvider();
+
+    assert.equal(TorrentParser.parseBatch("[Group] Show - 03 (1080p)", "Episódio 03"), null);
+    assert.equal(TorrentParser.parseBatch("[Group] Show S2 - 03 (1080p)", ""), null);
+    assert.equal(TorrentParser.parseBatch("[Group] Show S02E03 (1080p)", ""), null);
+});
+
+test("smartSearch only offers batches that cover the requested episode", async () => {
+    const page = `<article><div class="entry-content">
+        <h3>Episódios 01 ao 12</h3>
+        <p>1080p <a href="${magnet("1", "[Group] Show 01~12 (1080p)")}">Download</a></p>
+        <h3>Episódios 13 ao 24</h3>
+        <p>1080p <a href="${magnet("2", "[Group] Show 13~24 (1080p)")}">Download</a></p>
+        <h3>Segunda temporada</h3>
+        <p>1080p <a href="${magnet("3", "[Group] Show S02 01-24 (1080p)")}">Download</a></p>
+        <h3>Série completa</h3>
+        <p>1080p <a href="${magnet("4", "[Group] Show Completo (1080p)")}">Download</a></p>
+    </div></article>`;
+    const media = { id: 5, romajiTitle: "Show", synonyms: [], isAdult: false };
+    const { Provider } = loadProvider({
+        routes: { [PAGE_URL]: page },
+        preferences: { pageOverrides: JSON.stringify({ [media.id]: "show" }) }
+    });
+    const results = await new Provider().smartSearch({ media, query: "Show", episodeNumber: 15, resolution: "", batch: true });
+
+    assert.deepEqual(plain(results.map(torrent => torrent.name).sort()), [
+        "[Group] Show 13~24 (1080p)",
+        "[Group] Show Completo (1080p)"
+    ]);
+});
@@ -0,0 +1,71 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider, plain } = require("./harness");
+
+// A clock the test moves by hand, TTLs are read from Date.now()
+const withClock = () => {
+    const clock = { now: Date.parse("2026-01-01T00:00:00Z") };
+    class FakeDate extends Date {
+        static now() {
+            return clock.now;
+        }
+    }
+    return { clock, ...loadProvider({ globals: { Date: FakeDate } }) };
+};
+
+test("the least recently used entry is evicted first", () => {
+    const { PerformanceCache } = loadProvider();
+    for (let index = 0; index < 100; index++) {
+        PerformanceCache.set("search", "query" + index, index);
+    }
+    // Reading the oldest entry makes the second oldest the next to go
+    PerformanceCache.get("search", "query0");
+    PerformanceCache.set("search", "query100", 100);
+
+    assert.equal(PerformanceCache.peek("search", "query0"), 0);
+    assert.equal(PerformanceCache.peek("search", "query1"), null);
+    assert.equal(PerformanceCache.peek("search", "query100"), 100);
+});
+
+test("each namespace expires after its own TTL", () => {
+    const { clock, PerformanceCache } = withClock();
+    PerformanceCache.set("latest", "feed", "latest");
+    PerformanceCache.set("search", "overlord", "search");
+
+    clock.now += 3 * 60 * 1000;
+
+    assert.equal(PerformanceCache.get("latest", "feed"), null);
+    assert.equal(PerformanceCache.get("search", "overlord"), "search");
+});
+
+test("invalidateByPrefix only removes the matching entries", () => {
+    const { PerformanceCache } = loadProvider();
+    PerformanceCache.set("torrents", "https://darkmahou.io/dandadan/", ["a"]);
+    PerformanceCache.set("torrents", "https://darkmahou.io/dandadan-2/", ["b"]);
+    PerformanceCache.set("torrents", "https://darkmahou.io/overlord/", ["c"]);
+
+    assert.equal(PerformanceCache.invalidateByPrefix("torrents:https://darkmahou.io/dandadan"), 2);
+    assert.equal(PerformanceCache.peek("torrents", "https://darkmahou.io/dandadan/"), null);
+    assert.deepEqual(plain(PerformanceCache.peek("torrents", "https://darkmahou.io/overlord/")), ["c"]);
+});
+
+test("a snapshot restores the unexpired entries after a restart", () => {
+    const first = withClock();
+    first.PerformanceCache.set("latest", "feed", "latest");
+    first.PerformanceCache.set("queryPlan", "171018", "dandadan");
+    const snapshot = JSON.parse(JSON.stringify(new first.Provider().exportCacheSnapshot()));
+
+    const second = withClock();
+    second.clock.now = first.clock.now + 3 * 60 * 1000;
+    const imported = new second.Provider().importCacheSnapshot(snapshot);
+
+    assert.equal(imported, 1);
+    assert.equal(second.PerformanceCache.get("latest", "feed"), null);
+    assert.equal(second.PerformanceCache.get("queryPlan", "171018"), "dandadan");
+});
+
+test("a snapshot from another version is ignored", () => {
+    const { Provider } = loadProvider();
+
+    assert.equal(new Provider().importCacheSnapshot({ version: 99, exportedAt: 0, entries: [] }), 0);
+});
@@ -0,0 +1,20 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider, fixture, plain } = require("./harness");
+
+const SEARCH_URL = "https://darkmahou.io/?s=Kusuriya%20no%20Hitorigoto";
+const media = { id: 161645, romajiTitle: "Kusuriya no Hitorigoto", synonyms: [], isAdult: false };
+
+test("explainSearch leaves the cache and the metrics untouched", async () => {
+    const { Provider } = loadProvider({ routes: { [SEARCH_URL]: fixture("homepage.html") } });
+    const provider = new Provider();
+    const before = plain(provider.getPerformanceMetrics());
+
+    const first = await provider.explainSearch("Kusuriya no Hitorigoto", media);
+    const second = await provider.explainSearch("Kusuriya no Hitorigoto", media);
+
+    assert.equal(first.finalPick.url, "https://darkmahou.io/kusuriya-no-hitorigoto/");
+    assert.equal(second.cache.pageExtract, "miss");
+    assert.deepEqual(plain(second.attempts.map(attempt => attempt.query)), plain(first.attempts.map(attempt => attempt.query)));
+    assert.deepEqual(plain(provider.getPerformanceMetrics()), before);
+});
@@ -0,0 +1,20 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider } = require("./harness");
+const corpus = require("../fuzzy-match-corpus.json");
+
+// Lower these only together with a corpus change that explains why
+const MIN_PRECISION = 0.9;
+const MIN_RECALL = 0.9;
+
+test("the labelled corpus scores above the precision and recall floors", () => {
+    const { MatchScoringEvaluator } = loadProvider();
+    const report = MatchScoringEvaluator.evaluate(corpus.pairs);
+    const failures = report.failures
+        .map(failure => `${failure.query} / ${failure.title}: ${failure.score} (${failure.strategy}), expected ${failure.expected}`)
+        .join("\n");
+
+    assert.equal(report.total, corpus.pairs.length);
+    assert.ok(report.precision >= MIN_PRECISION, `precision ${report.precision} below ${MIN_PRECISION}\n${failures}`);
+    assert.ok(report.recall >= MIN_RECALL, `recall ${report.recall} below ${MIN_RECALL}\n${failures}`);
+});
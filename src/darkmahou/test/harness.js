@@ -0,0 +1,87 @@
+// Loads darkmahou-provider.ts the way Seanime runs it: one script with the Seanime globals injected.
+// Every call gets a fresh context, so the static caches and metrics never leak between tests.
+const fs = require("node:fs");
+const path = require("node:path");
+const vm = require("node:vm");
+const ts = require("typescript");
+
+const SOURCE_PATH = path.join(__dirname, "..", "darkmahou-provider.ts");
+const FIXTURES_PATH = path.join(__dirname, "fixtures");
+
+// Top-level classes and consts are not globals in a script, so the last expression hands them out
+const EXPOSED = [
+    "Provider",
+    "LatestReleasesParser",
+    "MagnetBlockParser",
+    "SearchResultParser",
+    "ConcurrencyLimiter",
+    "HTTPClient",
+    "PageOverrides",
+    "PageMetadataValidator",
+    "PerformanceCache",
+    "PortugueseTranslator",
+    "TorrentParser",
+    "QueryPlanner",
+    "MatchScoringEvaluator",
+    "MirrorManager",
+    "PROVIDER_CONFIG",
+    "ReleaseRanker",
+    "TorrentFileParser"
+];
+
+let compiled = null;
+
+const compile = () => {
+    if (compiled === null) {
+        const source = fs.readFileSync(SOURCE_PATH, "utf8");
+        compiled = ts.transpileModule(source, {
+            compilerOptions: { target: ts.ScriptTarget.ES2020, removeComments: true }
+        }).outputText;
+    }
+    return compiled;
+};
+
+const fixture = (name, encoding = "utf8") => fs.readFileSync(path.join(FIXTURES_PATH, name), encoding);
+
+// Routes map a URL to a body string, a Buffer or { status, body }, unknown URLs answer 404
+const createFetch = (routes) => {
+    const requests = [];
+    const fetch = async (url) => {
+        requests.push(url);
+        const route = routes[url];
+        if (route === undefined) {
+            return new Response("Not found", { status: 404 });
+        }
+        if (typeof route === "string" || Buffer.isBuffer(route)) {
+            return new Response(route, { status: 200 });
+        }
+        return new Response(route.body ?? "", { status: route.status ?? 200 });
+    };
+    return { fetch, requests };
+};
+
+// Preferences stand in for the manifest's user config fields. Extra globals such as LoadDoc can be
+// passed in, without LoadDoc the regex fallbacks run.
+const loadProvider = ({ routes = {}, fetch, preferences = {}, globals = {} } = {}) => {
+    const mock = createFetch(routes);
+    const context = vm.createContext({
+        console: { log() {} },
+        fetch: fetch ?? mock.fetch,
+        $getUserPreference: (key) => preferences[key],
+        URL,
+        Response,
+        AbortController,
+        TextEncoder,
+        TextDecoder,
+        setTimeout,
+        clearTimeout,
+        ...globals
+    });
+    const exposed = vm.runInContext(`${compile()}\n;({ ${EXPOSED.join(", ")} })`, context, { filename: SOURCE_PATH });
+    return { ...exposed, requests: mock.requests };
+};
+
+// Values built inside the context have that context's prototypes, which strict deep equality rejects
+const plain = (value) => JSON.parse(JSON.stringify(value));
+
+module.exports = { loadProvider, fixture, plain };
@@ -0,0 +1,64 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider } = require("./harness");
+
+const FAST_RETRIES = { baseDelayMs: 1, maxDelayMs: 1 };
+
+test("a released limiter slot goes to the queued task, not to a new caller", async () => {
+    const { ConcurrencyLimiter } = loadProvider();
+    const limiter = new ConcurrencyLimiter(1);
+    const order = [];
+    let running = 0;
+    let maxRunning = 0;
+
+    const task = (name) => limiter.run(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        order.push(name);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+    });
+
+    const first = task("first");
+    const queued = task("queued");
+    await first;
+    // Arrives after the slot was released but before the queued task got to run
+    const late = task("late");
+    await Promise.all([queued, late]);
+
+    assert.equal(maxRunning, 1);
+    assert.deepEqual(order, ["first", "queued", "late"]);
+});
+
+test("the timeout still applies while the body is being read", async () => {
+    const stalled = async () => new Response(new ReadableStream({ start() {} }), { status: 200 });
+    const { HTTPClient } = loadProvider({ fetch: stalled });
+    HTTPClient.configure({ ...FAST_RETRIES, timeoutMs: 20, maxRetries: 0 });
+
+    const result = await HTTPClient.fetchWithUserAgent("https://darkmahou.io/");
+
+    assert.equal(result.success, false);
+    assert.equal(result.error.kind, "timeout");
+});
+
+test("a search stops at the request budget when every mirror keeps failing", async () => {
+    let requests = 0;
+    const failing = async () => {
+        requests++;
+        return new Response("Service Unavailable", { status: 500 });
+    };
+    const { Provider, HTTPClient } = loadProvider({ fetch: failing });
+    HTTPClient.configure(FAST_RETRIES);
+
+    const media = {
+        id: 1,
+        romajiTitle: "Kusuriya no Hitorigoto",
+        englishTitle: "The Apothecary Diaries",
+        synonyms: ["Kusuriya", "Drugstore Soliloquy", "Apothecary"],
+        isAdult: false
+    };
+    const results = await new Provider().search({ media, query: "Kusuriya no Hitorigoto" });
+
+    assert.equal(results.length, 0);
+    assert.ok(requests <= 12, `expected at most 12 search requests, saw ${requests}`);
+});
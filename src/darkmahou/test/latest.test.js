@@ -0,0 +1,82 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider, fixture, plain } = require("./harness");
+
+const FEED_URL = "https://darkmahou.io/feed/";
+const HOME_URL = "https://darkmahou.io/";
+const DANDADAN_URL = "https://darkmahou.io/dandadan/";
+const KUSURIYA_URL = "https://darkmahou.io/kusuriya-no-hitorigoto/";
+
+test("parseFeed reads title, link, date and embedded content", () => {
+    const { LatestReleasesParser } = loadProvider();
+    const releases = LatestReleasesParser.parseFeed(fixture("feed.xml"));
+
+    assert.equal(releases.length, 2);
+    assert.equal(releases[0].title, "Dandadan - Episódio 05");
+    assert.equal(releases[0].url, DANDADAN_URL);
+    assert.equal(releases[0].date, "2025-10-06T10:00:00.000Z");
+    assert.match(releases[0].content, /magnet:\?xt=urn:btih:0123456789abcdef/);
+    assert.equal(releases[1].url, KUSURIYA_URL);
+    assert.equal(releases[1].content, undefined);
+});
+
+test("parseHomepage reads the release cards", () => {
+    const { LatestReleasesParser } = loadProvider();
+    const releases = LatestReleasesParser.parseHomepage(fixture("homepage.html"));
+
+    assert.deepEqual(plain(releases.map(release => release.url)), [DANDADAN_URL, KUSURIYA_URL]);
+    assert.deepEqual(plain(releases.map(release => release.title)), ["Dandadan", "Kusuriya no Hitorigoto"]);
+});
+
+test("getLatest uses the feed date for embedded magnets and only the released episode from scraped pages", async () => {
+    const { Provider } = loadProvider({
+        routes: { [FEED_URL]: fixture("feed.xml"), [KUSURIYA_URL]: fixture("anime-page.html") }
+    });
+    const torrents = await new Provider().getLatest();
+
+    const dandadan = torrents.filter(torrent => torrent.link === DANDADAN_URL);
+    assert.equal(dandadan.length, 1);
+    assert.equal(dandadan[0].episodeNumber, 5);
+    assert.equal(dandadan[0].date, "2025-10-06T10:00:00.000Z");
+
+    // Episode 11 is on the same page but was not part of this release
+    const kusuriya = torrents.filter(torrent => torrent.link === KUSURIYA_URL);
+    assert.deepEqual(plain(kusuriya.map(torrent => torrent.episodeNumber)), [12, 12]);
+    assert.deepEqual(plain(kusuriya.map(torrent => torrent.resolution)), ["1080p", "720p"]);
+    for (const torrent of kusuriya) {
+        assert.equal(torrent.date, "2025-01-10T12:00:00.000Z");
+    }
+});
+
+test("getLatest falls back to the homepage listing when the feed is unavailable", async () => {
+    const { Provider, requests } = loadProvider({
+        routes: { [HOME_URL]: fixture("homepage.html"), [KUSURIYA_URL]: fixture("anime-page.html") }
+    });
+    const torrents = await new Provider().getLatest();
+
+    assert.ok(requests.includes(FEED_URL));
+    assert.ok(requests.includes(HOME_URL));
+    // Without a release title the newest episode on the page is the release
+    assert.deepEqual(plain(torrents.map(torrent => torrent.episodeNumber)), [12, 12]);
+});
+
+test("getLatest fetches release pages with bounded concurrency", async () => {
+    const pages = Array.from({ length: 8 }, (_, index) => `https://darkmahou.io/anime-${index}/`);
+    const feed = `<rss><channel>${pages.map(url => `<item><title>Anime</title><link>${url}</link></item>`).join("")}</channel></rss>`;
+
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const fetch = async (url) => {
+        if (url === FEED_URL) return new Response(feed, { status: 200 });
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return new Response(fixture("anime-page.html"), { status: 200 });
+    };
+
+    const { Provider } = loadProvider({ fetch });
+    await new Provider().getLatest();
+
+    assert.ok(maxInFlight <= 2, `expected at most 2 page fetches in flight, saw ${maxInFlight}`);
+});
@@ -0,0 +1,68 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider, fixture, plain } = require("./harness");
+
+const magnet = (hash, name) => `magnet:?xt=urn:btih:${hash.repeat(40)}&amp;dn=${encodeURIComponent(name)}`;
+
+test("each magnet on an anime page gets the size listed with it", () => {
+    const { MagnetBlockParser } = loadProvider();
+    const blocks = MagnetBlockParser.parseWithDownloads(fixture("anime-page.html"));
+
+    assert.deepEqual(plain(blocks.map(block => MagnetBlockParser.extractSize(block))), [
+        Math.round(1.3 * 1024 ** 3),
+        Math.round(1.4 * 1024 ** 3),
+        700 * 1024 ** 2
+    ]);
+});
+
+test("a magnet without a size does not take the next release's size", () => {
+    const { MagnetBlockParser } = loadProvider();
+    const html = `<h3>Episódio 01</h3>
+        <p>1080p <a href="${magnet("a", "[Group] Show - 01 (1080p).mkv")}">Download</a></p>
+        <p>720p – 700 MB <a href="${magnet("b", "[Group] Show - 01 (720p).mkv")}">Download</a></p>`;
+    const blocks = MagnetBlockParser.parseWithDownloads(html);
+
+    assert.equal(MagnetBlockParser.extractSize(blocks[0]), null);
+    assert.equal(MagnetBlockParser.extractSize(blocks[1]), 700 * 1024 ** 2);
+});
+
+test("a .torrent link without a magnet only reads the text after the previous download", () => {
+    const { MagnetBlockParser } = loadProvider();
+    const html = `<h3>Episódio 01</h3>
+        <p>1080p – 1.4 GB <a href="https://darkmahou.io/files/show-01-1080p.torrent">Torrent</a></p>
+        <p>720p <a href="https://darkmahou.io/files/show-01-720p.torrent">Torrent</a></p>`;
+    const blocks = MagnetBlockParser.parseWithDownloads(html);
+
+    assert.equal(blocks.length, 2);
+    assert.equal(MagnetBlockParser.extractSize(blocks[0]), Math.round(1.4 * 1024 ** 3));
+    assert.equal(MagnetBlockParser.extractSize(blocks[1]), null);
+});
+
+test("an episode mentioned in the synopsis is not taken as a download heading", () => {
+    const { MagnetBlockParser } = loadProvider();
+    const html = `<div class="entry-content">
+        <p>No episódio 3 Maomao descobre o veneno escondido no palácio.</p>
+        <p>1080p <a href="${magnet("a", "[Group] Kusuriya no Hitorigoto (1080p).mkv")}">Download</a></p>
+        <h3>Kusuriya no Hitorigoto &#8211; Episódio 12</h3>
+        <p>1080p <a href="${magnet("b", "[Group] Kusuriya no Hitorigoto - 12 (1080p).mkv")}">Download</a></p>
+    </div>`;
+    const blocks = MagnetBlockParser.parseWithDownloads(html);
+
+    assert.equal(blocks[0].episodeTitle, "");
+    assert.equal(blocks[1].episodeTitle, "Kusuriya no Hitorigoto - Episódio 12");
+});
+
+test("a synopsis mentioning dubbing does not label the magnets after it", () => {
+    const { MagnetBlockParser } = loadProvider();
+    const html = `<div class="entry-content">
+        <p>O anime foi dublado pela Crunchyroll em 2023, mas aqui só tem a versão original.</p>
+        <h3>Episódio 01</h3>
+        <p>1080p <a href="${magnet("a", "[Group] Show - 01 (1080p).mkv")}">Download</a></p>
+        <h4>Dublado</h4>
+        <p>1080p <a href="${magnet("b", "[Group] Show - 01 (1080p).mkv")}">Download</a></p>
+        <p><a href="${magnet("c", "[Group] Show - 01 (720p).mkv")}">720p Dual Áudio</a></p>
+    </div>`;
+    const blocks = MagnetBlockParser.parseWithDownloads(html);
+
+    assert.deepEqual(plain(blocks.map(block => block.audioLabel)), ["", "Dublado", "720p Dual Áudio"]);
+});
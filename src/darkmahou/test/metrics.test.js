@@ -0,0 +1,52 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider, plain } = require("./harness");
+
+const STAGES = ["pageExtraction", "parse", "searchFetch", "torrentPageFetch"];
+
+test("the metrics keep the same JSON shape before anything was recorded", () => {
+    const { Provider } = loadProvider();
+    const metrics = plain(new Provider().getPerformanceMetrics());
+
+    assert.deepEqual(Object.keys(metrics).sort(), [
+        "cacheEfficiency",
+        "cacheHits",
+        "cacheMisses",
+        "fuzzyMatchCount",
+        "hosts",
+        "parseTime",
+        "requestsCoalesced",
+        "requestsStarted",
+        "searchTime",
+        "stages"
+    ]);
+    assert.deepEqual(Object.keys(metrics.stages).sort(), STAGES);
+    for (const stage of STAGES) {
+        assert.deepEqual(Object.keys(metrics.stages[stage]).sort(), ["buckets", "count", "max", "p50", "p95", "totalMs"]);
+        assert.equal(metrics.stages[stage].count, 0);
+    }
+    assert.deepEqual(metrics.hosts, {});
+});
+
+test("a fetch stage times each real request once, without the retry backoff", async () => {
+    let requests = 0;
+    const flaky = async () => {
+        requests++;
+        return requests === 1 ? new Response("Busy", { status: 503 }) : new Response("<html></html>", { status: 200 });
+    };
+    const { Provider, MirrorManager, HTTPClient } = loadProvider({ fetch: flaky });
+    HTTPClient.configure({ baseDelayMs: 200, maxDelayMs: 200 });
+    const provider = new Provider();
+
+    // The second caller joins the request already in flight
+    await Promise.all([
+        MirrorManager.fetch("/show/", { stage: "torrentPageFetch" }),
+        MirrorManager.fetch("/show/", { stage: "torrentPageFetch" })
+    ]);
+    const { stages, requestsCoalesced } = plain(provider.getPerformanceMetrics());
+
+    assert.equal(requests, 2);
+    assert.equal(requestsCoalesced, 1);
+    assert.equal(stages.torrentPageFetch.count, 2);
+    assert.ok(stages.torrentPageFetch.totalMs < 100, `expected the backoff to be left out, saw ${stages.torrentPageFetch.totalMs}ms`);
+});
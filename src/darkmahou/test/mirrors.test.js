@@ -0,0 +1,35 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider, fixture, plain } = require("./harness");
+const manifest = require("../darkmahou-provider.json");
+
+const manifestMirrors = () => manifest.userConfig.fields.find(field => field.name === "mirrors").default.split(",");
+
+test("the built-in mirror list matches the manifest default", () => {
+    const { PROVIDER_CONFIG } = loadProvider();
+
+    assert.deepEqual(plain(PROVIDER_CONFIG.MIRRORS), manifestMirrors());
+});
+
+test("the mirrors user config replaces the built-in list", async () => {
+    const { Provider, MirrorManager, requests } = loadProvider({
+        preferences: { mirrors: "https://darkmahou.net/, https://darkmahou.io" }
+    });
+    const provider = new Provider();
+    await provider.getLatest();
+
+    assert.deepEqual(plain(MirrorManager.list()), ["https://darkmahou.net", "https://darkmahou.io"]);
+    assert.equal(requests[0], "https://darkmahou.net/feed/");
+});
+
+test("result links to hosts outside the mirror list are ignored", () => {
+    const { SearchResultParser } = loadProvider();
+    const html = fixture("homepage.html").replace(
+        '<article class="bs">',
+        '<article class="bs"><a href="https://ads.example.com/promo/" title="Dandadan Promo">Promo</a></article><article class="bs">'
+    );
+
+    const urls = SearchResultParser.parse(html).map(entry => entry.url);
+    assert.ok(!urls.some(url => url.includes("example.com")));
+    assert.equal(urls.length, 2);
+});
@@ -0,0 +1,42 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider, fixture, plain } = require("./harness");
+
+const KUSURIYA_URL = "https://darkmahou.io/kusuriya-no-hitorigoto/";
+const media = { id: 161645, romajiTitle: "Kusuriya no Hitorigoto", synonyms: [], isAdult: false };
+
+test("overrides from the user config skip the site search", async () => {
+    const { Provider, requests } = loadProvider({
+        routes: { [KUSURIYA_URL]: fixture("anime-page.html") },
+        preferences: { pageOverrides: JSON.stringify({ [media.id]: "kusuriya-no-hitorigoto" }) }
+    });
+    const torrents = await new Provider().search({ media, query: "Kusuriya no Hitorigoto" });
+
+    assert.deepEqual(plain(requests), [KUSURIYA_URL]);
+    assert.equal(torrents.length, 3);
+});
+
+test("an invalid user config is ignored", async () => {
+    const { Provider, PageOverrides } = loadProvider({ preferences: { pageOverrides: "{not json" } });
+    new Provider();
+
+    assert.deepEqual(plain(PageOverrides.get(media.id)), []);
+});
+
+test("a rejected entry keeps the override already set for that media", () => {
+    const { PageOverrides } = loadProvider();
+
+    assert.equal(PageOverrides.importJSON({ [media.id]: "kusuriya-no-hitorigoto" }), 1);
+    assert.equal(PageOverrides.importJSON({ [media.id]: "not a slug!", 0: "dandadan" }), 0);
+    assert.deepEqual(plain(PageOverrides.get(media.id)), [KUSURIYA_URL]);
+});
+
+test("exported overrides import into another install unchanged", () => {
+    const first = loadProvider({ preferences: { pageOverrides: JSON.stringify({ [media.id]: "kusuriya-no-hitorigoto" }) } });
+    const exported = new first.Provider().exportPageOverrides();
+
+    const second = loadProvider();
+    assert.equal(new second.Provider().importPageOverrides(exported), Object.keys(JSON.parse(exported)).length);
+    assert.deepEqual(plain(second.PageOverrides.get(media.id)), [KUSURIYA_URL]);
+    assert.equal(second.PageOverrides.exportJSON(), exported);
+});
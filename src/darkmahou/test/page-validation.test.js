@@ -0,0 +1,31 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider, plain } = require("./harness");
+
+const candidate = (url, score, contradictions = [], penalty = 0) => ({
+    url,
+    title: url,
+    score,
+    strategy: "fuzzy",
+    validation: { contradictions, confirmedByTitle: false, penalty }
+});
+
+test("a contradicting page is dropped when a consistent page remains", () => {
+    const { PageMetadataValidator } = loadProvider();
+    const demoted = PageMetadataValidator.demote([
+        candidate("https://darkmahou.io/show-2006/", 95, ["year"], 10),
+        candidate("https://darkmahou.io/show-2024/", 70)
+    ]);
+
+    assert.deepEqual(plain(demoted.map(page => page.url)), ["https://darkmahou.io/show-2024/"]);
+});
+
+test("contradicting pages are kept in score order when no consistent page remains", () => {
+    const { PageMetadataValidator } = loadProvider();
+    const demoted = PageMetadataValidator.demote([
+        candidate("https://darkmahou.io/a/", 60, ["year"], 30),
+        candidate("https://darkmahou.io/b/", 90, ["status"], 20)
+    ]);
+
+    assert.deepEqual(plain(demoted.map(page => page.url)), ["https://darkmahou.io/b/"]);
+});
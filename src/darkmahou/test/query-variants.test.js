@@ -0,0 +1,50 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider, plain } = require("./harness");
+
+const variants = (query) => {
+    const { PortugueseTranslator } = loadProvider();
+    return plain(PortugueseTranslator.generateVariants(query));
+};
+
+test("Roman sequel numbers get Arabic and season variants", () => {
+    assert.deepEqual(variants("Overlord IV"), ["Overlord IV", "Overlord 4", "Overlord 4ª temporada"]);
+    assert.deepEqual(variants("Mushoku Tensei II"), ["Mushoku Tensei II", "Mushoku Tensei 2", "Mushoku Tensei 2ª temporada"]);
+});
+
+test("seasons, parts and cours are written the way the site does", () => {
+    assert.deepEqual(variants("Shingeki no Kyojin Season 2 Part 2"), ["Shingeki no Kyojin 2ª temporada parte 2"]);
+    assert.deepEqual(variants("Dr. Stone 2nd Cour"), ["Dr. Stone parte 2"]);
+});
+
+test("a subtitle after a colon is kept and dropped", () => {
+    assert.deepEqual(variants("Mushoku Tensei: Isekai Ittara Honki Dasu"), [
+        "Mushoku Tensei Isekai Ittara Honki Dasu",
+        "Mushoku Tensei"
+    ]);
+});
+
+test("a colon inside the title is not a subtitle separator", () => {
+    assert.deepEqual(variants("Re:Zero kara Hajimeru Isekai Seikatsu 2nd Season"), [
+        "Re:Zero kara Hajimeru Isekai Seikatsu 2ª temporada"
+    ]);
+});
+
+test("variants too short to identify a show are left out", () => {
+    assert.deepEqual(variants("K: Return of Kings"), ["K Return of Kings"]);
+});
+
+test("the planned queries for Re:Zero never search for a fragment of the title", () => {
+    const { QueryPlanner } = loadProvider();
+    const title = "Re:Zero kara Hajimeru Isekai Seikatsu 2nd Season";
+    const queries = plain(QueryPlanner.plan(title, {
+        id: 1,
+        romajiTitle: title,
+        englishTitle: "Re:ZERO -Starting Life in Another World- Season 2",
+        synonyms: [],
+        isAdult: false
+    }));
+
+    assert.equal(queries[0], "Re:Zero kara Hajimeru Isekai Seikatsu 2ª temporada");
+    assert.ok(queries.every(query => query.length >= 4), `unexpected short query in ${queries.join(" | ")}`);
+});
@@ -0,0 +1,52 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider, plain } = require("./harness");
+
+test("codec, bit depth, source, audio and version are read from the torrent name", () => {
+    const { TorrentParser } = loadProvider();
+    const attributes = plain(TorrentParser.parseAttributes("[Group] Show - 05v2 (BD 1080p HEVC 10bit FLAC) [Dual Áudio].mkv"));
+
+    assert.equal(attributes.videoCodec, "HEVC");
+    assert.equal(attributes.bitDepth, 10);
+    assert.equal(attributes.source, "BD");
+    assert.deepEqual(attributes.audioCodecs, ["FLAC"]);
+    assert.equal(attributes.audioType, "dual");
+    assert.equal(attributes.container, "mkv");
+    assert.equal(attributes.version, 2);
+});
+
+test("the source comes from the quality label when the name has none", () => {
+    const { TorrentParser } = loadProvider();
+    const attributes = plain(TorrentParser.parseAttributes("[Group] Show - 05 (1080p x264 AAC).mp4", "Show – Episódio 05", "WEB-DL 1080p"));
+
+    assert.equal(attributes.videoCodec, "AVC");
+    assert.equal(attributes.source, "WEB-DL");
+    assert.equal(attributes.version, 1);
+});
+
+test("a heading mentioning TV does not make the release a TV source", () => {
+    const { TorrentParser } = loadProvider();
+    const attributes = TorrentParser.parseAttributes("[Group] Dandadan - 05 (1080p).mkv", "Dandadan TV – Episódio 05", "1080p");
+
+    assert.equal(attributes.source, null);
+});
+
+test("a v2 release replaces the v1 of the same episode", () => {
+    const { TorrentParser } = loadProvider();
+    const torrent = (name, episodeNumber, version) => ({
+        name,
+        episodeNumber,
+        resolution: "1080p",
+        releaseGroup: "Group",
+        link: "https://darkmahou.io/show/",
+        isBatch: false,
+        attributes: { version, audioType: "sub" }
+    });
+    const kept = TorrentParser.supersedeOldVersions([
+        torrent("[Group] Show - 05 (1080p)", 5, 1),
+        torrent("[Group] Show - 05v2 (1080p)", 5, 2),
+        torrent("[Group] Show - 06 (1080p)", 6, 1)
+    ]);
+
+    assert.deepEqual(plain(kept.map(result => result.name)), ["[Group] Show - 05v2 (1080p)", "[Group] Show - 06 (1080p)"]);
+});
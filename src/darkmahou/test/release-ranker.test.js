@@ -0,0 +1,114 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider, plain } = require("./harness");
+
+const opts = { episodeNumber: 5, resolution: "1080p", batch: false };
+
+const torrent = (name, overrides = {}) => ({
+    name,
+    infoHash: name.replace(/\W/g, "").toLowerCase(),
+    resolution: "1080p",
+    episodeNumber: 5,
+    contentKind: "episode",
+    isBatch: false,
+    batch: null,
+    releaseGroup: "Group",
+    attributes: {},
+    episodeExtraction: { episodeNumber: 5, confidence: "high", strategy: "dash" },
+    ...overrides
+});
+
+test("a BD release ranks above the same release from the web", () => {
+    const { ReleaseRanker } = loadProvider();
+    const ranked = ReleaseRanker.rank([
+        torrent("[Group] Show - 05 (WEB 1080p)", { attributes: { source: "WEB" } }),
+        torrent("[Group] Show - 05 (BD 1080p)", { attributes: { source: "BD" } })
+    ], opts);
+
+    assert.equal(ranked[0].name, "[Group] Show - 05 (BD 1080p)");
+    assert.deepEqual(plain(ranked.map(result => result.isBestRelease)), [true, false]);
+});
+
+test("releases without an episode number or batch range are not grouped together", () => {
+    const { ReleaseRanker } = loadProvider();
+    const unknown = { episodeNumber: -1, episodeExtraction: { episodeNumber: -1, confidence: "low", strategy: "none" } };
+    const ranked = ReleaseRanker.rank([
+        torrent("[Group] Show Special A", unknown),
+        torrent("[Group] Show Special B", unknown),
+        torrent("[Group] Show Batch A", { isBatch: true, batch: { startEpisode: null, endEpisode: null } }),
+        torrent("[Group] Show Batch B", { isBatch: true, batch: { startEpisode: null, endEpisode: null } })
+    ], { ...opts, episodeNumber: 0 });
+
+    assert.ok(ranked.every(result => result.isBestRelease));
+});
+
+test("relative, absolute and batch results for one requested episode share a single best release", () => {
+    const { ReleaseRanker } = loadProvider();
+    const ranked = ReleaseRanker.rank([
+        torrent("[Group] Show 2nd Season - 03 (1080p)", { episodeNumber: 3 }),
+        torrent("[Group] Show - 15 (1080p)", { episodeNumber: 15 }),
+        torrent("[Group] Show 2nd Season 01-12 (1080p)", { episodeNumber: -1, isBatch: true, batch: { startEpisode: 1, endEpisode: 12 } })
+    ], { ...opts, episodeNumber: 3 });
+
+    assert.deepEqual(plain(ranked.filter(result => result.isBestRelease).map(result => result.name)), [
+        "[Group] Show 2nd Season - 03 (1080p)"
+    ]);
+});
+
+test("a batch request keeps one best release per batch range", () => {
+    const { ReleaseRanker } = loadProvider();
+    const batch = (name, startEpisode, endEpisode, resolution = "1080p") =>
+        torrent(name, { episodeNumber: -1, resolution, isBatch: true, batch: { startEpisode, endEpisode } });
+    const ranked = ReleaseRanker.rank([
+        batch("[Group] Show 01-12 (720p)", 1, 12, "720p"),
+        batch("[Group] Show 01-12 (1080p)", 1, 12),
+        batch("[Group] Show 01-24 (1080p)", 1, 24)
+    ], { ...opts, episodeNumber: 3, batch: true });
+
+    assert.deepEqual(plain(ranked.filter(result => result.isBestRelease).map(result => result.name)), [
+        "[Group] Show 01-12 (1080p)",
+        "[Group] Show 01-24 (1080p)"
+    ]);
+});
+
+test("the release groups user config sets the group priority", () => {
+    const { Provider, ReleaseRanker } = loadProvider({ preferences: { releaseGroups: "Preferred, Other" } });
+    new Provider();
+    const ranked = ReleaseRanker.rank([
+        torrent("[Other] Show - 05 (1080p)", { releaseGroup: "Other" }),
+        torrent("[Preferred] Show - 05 (1080p)", { releaseGroup: "Preferred" })
+    ], opts);
+
+    assert.deepEqual(plain(ReleaseRanker.getGroupPriority()), ["preferred", "other"]);
+    assert.equal(ranked[0].releaseGroup, "Preferred");
+});
+
+test("confirmed episode numbers are ranked by score, medium confidence only breaks ties", () => {
+    const { ReleaseRanker } = loadProvider();
+    const medium = { episodeExtraction: { episodeNumber: 5, confidence: "medium", strategy: "keyword" } };
+    const ranked = ReleaseRanker.rank([
+        torrent("[Group] Show 05 720p", { resolution: "720p" }),
+        torrent("[Group] Show Episódio 05 1080p", medium),
+        torrent("[Group] Show - 05 (1080p)")
+    ], opts);
+
+    assert.deepEqual(plain(ranked.map(result => result.name)), [
+        "[Group] Show - 05 (1080p)",
+        "[Group] Show Episódio 05 1080p",
+        "[Group] Show 05 720p"
+    ]);
+});
+
+test("a guessed episode number sorts below confirmed ones and is never the best release", () => {
+    const { ReleaseRanker } = loadProvider();
+    const guessed = { episodeExtraction: { episodeNumber: 5, confidence: "low", strategy: "isolatedNumber" } };
+    const ranked = ReleaseRanker.rank([
+        torrent("[Group] Show 05 1080p", guessed),
+        torrent("[Group] Show - 05 (720p)", { resolution: "720p" })
+    ], opts);
+
+    assert.deepEqual(plain(ranked.map(result => [result.name, result.isBestRelease])), [
+        ["[Group] Show - 05 (720p)", true],
+        ["[Group] Show 05 1080p", false]
+    ]);
+});
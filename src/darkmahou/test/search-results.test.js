@@ -0,0 +1,34 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider, fixture, plain } = require("./harness");
+
+// A LoadDoc whose selectors never match, like a theme that renamed every card class
+const emptySelection = () => {
+    const selection = {
+        length: () => 0,
+        each: () => selection,
+        find: () => selection,
+        first: () => selection,
+        closest: () => selection,
+        attr: () => undefined,
+        text: () => ""
+    };
+    return selection;
+};
+
+test("result cards are read with the regex fallback when LoadDoc is unavailable", () => {
+    const { SearchResultParser } = loadProvider();
+    const entries = SearchResultParser.parse(fixture("homepage.html"));
+
+    assert.deepEqual(plain(entries.map(entry => entry.title)), ["Dandadan", "Kusuriya no Hitorigoto"]);
+});
+
+test("result cards are read with the regex fallback when the document parse finds nothing", () => {
+    const { SearchResultParser } = loadProvider({ globals: { LoadDoc: () => emptySelection } });
+    const entries = SearchResultParser.parse(fixture("homepage.html"));
+
+    assert.deepEqual(plain(entries.map(entry => entry.url)), [
+        "https://darkmahou.io/dandadan/",
+        "https://darkmahou.io/kusuriya-no-hitorigoto/"
+    ]);
+});
@@ -0,0 +1,79 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider, plain } = require("./harness");
+
+const magnet = (hash, name) => `magnet:?xt=urn:btih:${hash.repeat(40)}&amp;dn=${encodeURIComponent(name)}`;
+const pad = (episode) => String(episode).padStart(2, "0");
+
+const searchPage = (titles) => `<div class="listupd">${titles.map(title => `
+    <article class="bs"><div class="bsx">
+        <a href="https://darkmahou.io/${slug(title)}/" title="${title}"><div class="tt">${title}</div></a>
+    </div></article>`).join("")}
+</div>`;
+
+const animePage = (release, episodes) => `<article><div class="entry-content">${episodes.map(([episode, hash]) => `
+    <h3>Episódio ${pad(episode)}</h3>
+    <p>1080p <a href="${magnet(hash, `[Group] ${release} - ${pad(episode)} (1080p).mkv`)}">Download</a></p>`).join("")}
+</div></article>`;
+
+const slug = (title) => title.toLowerCase().replace(/ª/g, "").replace(/[^a-z0-9]+/g, "-");
+
+// Every site search answers with the given cards, anime pages are served by slug
+const smartSearch = async (titles, pages, media, episodeNumber) => {
+    const routes = Object.fromEntries(Object.entries(pages).map(([title, html]) => [`https://darkmahou.io/${slug(title)}/`, html]));
+    const fetch = async (url) => {
+        if (url.includes("?s=")) {
+            return new Response(url.includes("/page/") ? "" : searchPage(titles), { status: url.includes("/page/") ? 404 : 200 });
+        }
+        return routes[url] ? new Response(routes[url]) : new Response("Not found", { status: 404 });
+    };
+    const { Provider } = loadProvider({ fetch });
+    const query = media.romajiTitle;
+    const results = await new Provider().smartSearch({ media, query, episodeNumber, resolution: "", batch: false });
+    return plain(results.map(torrent => torrent.name).sort());
+};
+
+const UMBRELLA = "Kimetsu no Yaiba";
+const SEASON_2 = "Kimetsu no Yaiba 2ª Temporada";
+const SEASON_3 = "Kimetsu no Yaiba 3ª Temporada";
+
+const pages = {
+    [UMBRELLA]: animePage("Kimetsu no Yaiba", [[3, "a"], [15, "b"]]),
+    [SEASON_2]: animePage("Kimetsu no Yaiba S2", [[3, "c"], [4, "d"]]),
+    [SEASON_3]: animePage("Kimetsu no Yaiba S3", [[3, "e"]])
+};
+
+const seasonTwo = {
+    id: 1,
+    romajiTitle: "Kimetsu no Yaiba Season 2",
+    synonyms: [],
+    isAdult: false,
+    format: "TV",
+    episodeCount: 12
+};
+
+test("the page marked for the requested season is used, not other seasons' pages", async () => {
+    const names = await smartSearch([UMBRELLA, SEASON_2, SEASON_3], pages, seasonTwo, 3);
+
+    assert.deepEqual(names, ["[Group] Kimetsu no Yaiba S2 - 03 (1080p).mkv"]);
+});
+
+test("the umbrella page is matched on the absolute episode number", async () => {
+    const names = await smartSearch([UMBRELLA, SEASON_2, SEASON_3], pages, { ...seasonTwo, absoluteSeasonOffset: 12 }, 3);
+
+    assert.deepEqual(names, [
+        "[Group] Kimetsu no Yaiba - 15 (1080p).mkv",
+        "[Group] Kimetsu no Yaiba S2 - 03 (1080p).mkv"
+    ]);
+});
+
+test("every page stays in play when none is marked for the requested season", async () => {
+    // AniList names this season after its arc, the site numbers it
+    const media = { ...seasonTwo, romajiTitle: "Kimetsu no Yaiba Yuukaku-hen", synonyms: ["Kimetsu no Yaiba"] };
+    const names = await smartSearch([SEASON_2, SEASON_3], pages, media, 3);
+
+    assert.deepEqual(names, [
+        "[Group] Kimetsu no Yaiba S2 - 03 (1080p).mkv",
+        "[Group] Kimetsu no Yaiba S3 - 03 (1080p).mkv"
+    ]);
+});
@@ -0,0 +1,66 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider, plain } = require("./harness");
+
+const PAGE_URL = "https://darkmahou.io/show/";
+
+const magnet = (hash, name) => `magnet:?xt=urn:btih:${hash.repeat(40)}&amp;dn=${encodeURIComponent(name)}`;
+
+const page = `<article><div class="entry-content">
+    <h3>Episódio 01</h3>
+    <p>1080p <a href="${magnet("1", "[Group] Show - 01 (1080p).mkv")}">Download</a></p>
+    <h3>Episódio 02</h3>
+    <p>1080p <a href="${magnet("2", "[Group] Show - 02 (1080p).mkv")}">Download</a></p>
+    <h3>OVA</h3>
+    <p>1080p <a href="${magnet("3", "[Group] Show OVA (1080p).mkv")}">Download</a></p>
+    <h3>Filme</h3>
+    <p>1080p <a href="${magnet("4", "[Group] Show Movie (1080p).mkv")}">Download</a></p>
+</div></article>`;
+
+const smartSearch = (media, episodeNumber) => {
+    const { Provider } = loadProvider({
+        routes: { [PAGE_URL]: page },
+        preferences: { pageOverrides: JSON.stringify({ [media.id]: "show" }) }
+    });
+    return new Provider().smartSearch({ media, query: "Show", episodeNumber, resolution: "", batch: false });
+};
+
+test("an episode request without a media format skips movies and OVAs", async () => {
+    const results = await smartSearch({ id: 1, romajiTitle: "Show", synonyms: [], isAdult: false }, 2);
+
+    assert.deepEqual(plain(results.map(torrent => torrent.name)), ["[Group] Show - 02 (1080p).mkv"]);
+});
+
+test("a movie request keeps the movie torrent", async () => {
+    const results = await smartSearch({ id: 2, romajiTitle: "Show", format: "MOVIE", synonyms: [], isAdult: false }, 1);
+
+    assert.deepEqual(plain(results.map(torrent => torrent.name)), ["[Group] Show Movie (1080p).mkv"]);
+});
+
+test("the audioPreference user config filters smartSearch by audio", async () => {
+    const media = { id: 3, romajiTitle: "Show", synonyms: [], isAdult: false };
+    const html = `<article><div class="entry-content">
+        <h3>Episódio 01</h3>
+        <h4>Legendado</h4>
+        <p>1080p <a href="${magnet("5", "[Group] Show - 01 (1080p).mkv")}">Download</a></p>
+        <h4>Dublado</h4>
+        <p>1080p <a href="${magnet("6", "[Group] Show - 01 (1080p).mkv")}">Download</a></p>
+    </div></article>`;
+    const { Provider } = loadProvider({
+        routes: { [PAGE_URL]: html },
+        preferences: { pageOverrides: JSON.stringify({ [media.id]: "show" }), audioPreference: "dub" }
+    });
+    const results = await new Provider().smartSearch({ media, query: "Show", episodeNumber: 1, resolution: "", batch: false });
+
+    assert.deepEqual(plain(results.map(torrent => torrent.infoHash)), ["6".repeat(40)]);
+});
+
+test("values the page does not publish are reported as unknown, not as fake ones", async () => {
+    const results = await smartSearch({ id: 4, romajiTitle: "Show", synonyms: [], isAdult: false }, 1);
+
+    assert.equal(results.length, 1);
+    assert.equal(results[0].date, "");
+    assert.equal(results[0].size, 0);
+    assert.equal(results[0].formattedSize, "Unknown");
+    assert.deepEqual(plain([results[0].seeders, results[0].leechers, results[0].downloadCount]), [-1, -1, -1]);
+});
@@ -0,0 +1,69 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { loadProvider, fixture, plain } = require("./harness");
+
+// SHA-1 of the bencoded info dictionary of fixtures/sample.torrent, computed outside this code base
+const SAMPLE_INFO_HASH = "900ef59e7f2f282d853bc78d0d9961a4ee6c11ef";
+const PAGE_URL = "https://darkmahou.io/dandadan/";
+const TORRENT_URL = "https://darkmahou.io/files/dandadan-05-1080p.torrent";
+const BROKEN_URL = "https://darkmahou.io/files/dandadan-05-720p.torrent";
+
+const media = { id: 171018, romajiTitle: "Dandadan", synonyms: [], isAdult: false };
+
+test("the info hash of a .torrent file is the SHA-1 of its info dictionary", () => {
+    const { TorrentFileParser } = loadProvider();
+    const bytes = new Uint8Array(fixture("sample.torrent", null));
+
+    assert.equal(TorrentFileParser.infoHash(bytes), SAMPLE_INFO_HASH);
+});
+
+test("files that are not torrents give no info hash", () => {
+    const { TorrentFileParser } = loadProvider();
+
+    assert.equal(TorrentFileParser.infoHash(new TextEncoder().encode("<html>Not found</html>")), "");
+    assert.equal(TorrentFileParser.infoHash(new TextEncoder().encode("d4:infod6:lengthi1e")), "");
+});
+
+test(".torrent links without a magnet are not downloaded during the search", async () => {
+    const page = `<h3>Episódio 05</h3>
+        <p>1080p <a href="${TORRENT_URL}">Torrent</a></p>
+        <p>${" ".repeat(400)}</p>
+        <p>720p <a href="${BROKEN_URL}">Torrent</a></p>`;
+    const { Provider, requests } = loadProvider({
+        routes: { [PAGE_URL]: page, [TORRENT_URL]: fixture("sample.torrent", null) },
+        preferences: { pageOverrides: JSON.stringify({ [media.id]: "dandadan" }) }
+    });
+    const torrents = await new Provider().search({ media, query: "Dandadan" });
+
+    assert.deepEqual(plain(requests), [PAGE_URL]);
+    assert.deepEqual(plain(torrents.map(torrent => [torrent.downloadUrl, torrent.infoHash, torrent.magnetLink])), [
+        [TORRENT_URL, "", ""],
+        [BROKEN_URL, "", ""]
+    ]);
+});
+
+test("the info hash and magnet of a magnet-less torrent are read from its file when requested", async () => {
+    const { Provider, requests } = loadProvider({
+        routes: { [TORRENT_URL]: fixture("sample.torrent", null), [BROKEN_URL]: "<html>Not found</html>" }
+    });
+    const provider = new Provider();
+    const torrent = { name: "[Group] Dandadan - 05 (1080p)", infoHash: "", magnetLink: "", downloadUrl: TORRENT_URL };
+
+    assert.equal(await provider.getTorrentInfoHash(torrent), SAMPLE_INFO_HASH);
+    assert.match(await provider.getTorrentMagnetLink(torrent), new RegExp(`^magnet:\\?xt=urn:btih:${SAMPLE_INFO_HASH}&dn=`));
+    assert.equal(await provider.getTorrentInfoHash({ ...torrent, downloadUrl: BROKEN_URL }), "");
+    assert.deepEqual(plain(requests), [TORRENT_URL, TORRENT_URL, BROKEN_URL]);
+});
+
+test("tracker detail pages are not used as download links", () => {
+    const { MagnetBlockParser } = loadProvider();
+    const magnet = `magnet:?xt=urn:btih:${"a".repeat(40)}`;
+    const links = [
+        "https://anidex.info/torrent/12345",
+        "https://www.tokyotosho.info/details.php?id=12345",
+        "https://nyaa.si/view/1234567"
+    ];
+    const blocks = links.map(link => MagnetBlockParser.parseWithDownloads(`<a href="${magnet}">Magnet</a> <a href="${link}">Tracker</a>`)[0]);
+
+    assert.deepEqual(plain(blocks.map(block => block.downloadUrl)), ["", "", "https://nyaa.si/download/1234567.torrent"]);
+});